@@ -0,0 +1,7 @@
+import dictionariesJson from './dictionaries.json';
+import { loadDictionaries } from '../lib/topicDictionary';
+
+export type { DictionaryEntry, TopicDictionaries } from '../lib/topicDictionary';
+
+// Bundled word lists of topics with a finite set of answers, validated when first imported
+export const dictionaries = loadDictionaries(dictionariesJson);
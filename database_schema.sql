@@ -4,7 +4,8 @@
 CREATE TABLE games (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     code VARCHAR(6) UNIQUE NOT NULL,  -- Short code for players to join
-    status VARCHAR(20) NOT NULL CHECK (status IN ('lobby', 'in-progress', 'completed')),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('lobby', 'round-active', 'reveal', 'paused', 'abandoned', 'completed')),
+    paused_at TIMESTAMP WITH TIME ZONE,  -- when the host paused the game, NULL otherwise
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     round_count INTEGER DEFAULT 0,
@@ -47,7 +48,7 @@ CREATE TABLE submissions (
     player_id UUID REFERENCES players(id) ON DELETE CASCADE,
     word VARCHAR(100) NOT NULL,
     submitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    is_final BOOLEAN DEFAULT FALSE,  -- Flag to indicate if submission is final
+    is_final BOOLEAN NOT NULL DEFAULT FALSE,  -- FALSE for drafts, which become final when the round ends
     UNIQUE(round_id, player_id, word)
 );
 
@@ -57,10 +58,26 @@ CREATE TABLE round_scores (
     round_id UUID REFERENCES rounds(id) ON DELETE CASCADE,
     player_id UUID REFERENCES players(id) ON DELETE CASCADE,
     score INTEGER DEFAULT 0,
+    matched_words TEXT[] DEFAULT '{}',  -- Words the player shared with other players
+    bonus_awarded BOOLEAN DEFAULT FALSE,  -- Whether the player earned the round bonus
+    submitted_words JSONB DEFAULT '[]'::jsonb,  -- Each word as typed with its canonical form
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     UNIQUE(round_id, player_id)
 );
 
+-- Round score ledger to store every word and bonus each round score is made of
+CREATE TABLE round_score_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    round_id UUID REFERENCES rounds(id) ON DELETE CASCADE,
+    player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+    word VARCHAR(100),  -- As the player typed it, NULL for the round bonus
+    normalized_word VARCHAR(100),  -- The canonical form the word was scored as
+    player_ids UUID[] DEFAULT '{}',  -- Every player who submitted the normalized word
+    points INTEGER NOT NULL,
+    reason VARCHAR(10) NOT NULL CHECK (reason IN ('match', 'unique', 'bonus', 'penalty', 'invalid')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better query performance
 CREATE INDEX idx_games_status ON games(status);
 CREATE INDEX idx_players_game_id ON players(game_id);
@@ -69,6 +86,8 @@ CREATE INDEX idx_submissions_round_id ON submissions(round_id);
 CREATE INDEX idx_submissions_player_id ON submissions(player_id);
 CREATE INDEX idx_round_scores_round_id ON round_scores(round_id);
 CREATE INDEX idx_round_scores_player_id ON round_scores(player_id);
+CREATE INDEX idx_round_score_ledger_round_id ON round_score_ledger(round_id);
+CREATE INDEX idx_round_score_ledger_player_id ON round_score_ledger(player_id);
 
 -- Function to update the updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -111,3 +130,6 @@ CREATE POLICY "Anyone can read submissions" ON submissions FOR SELECT USING (tru
 CREATE POLICY "Anyone can read round_scores" ON round_scores FOR SELECT USING (true);
 
 -- More restrictive policies for insert/update/delete would be needed in production
+
+-- round_score_ledger is written by finalize_round and rescore_round with the anon key,
+-- so it keeps Row Level Security off like the tables in 20250313_disable_rls.sql
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { CLOCK_RESYNC_INTERVAL_MS, ClockSample, syncClock } from '../lib/clockSync';
+
+/**
+ * Keep getServerTime in step with the server's clock while a page is open
+ *
+ * Syncs on mount and again every minute, since local clocks drift and can be
+ * changed while the page is open.
+ *
+ * @returns The latest estimate, null until the first sync succeeds. Countdowns
+ * can depend on it to recompute their time left as soon as it changes.
+ */
+export function useClockSync(): ClockSample | null {
+  const [clockSample, setClockSample] = useState<ClockSample | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const sync = async () => {
+      const estimate = await syncClock();
+      if (estimate && !cancelled) {
+        setClockSample(estimate);
+      }
+    };
+
+    sync();
+    const interval = setInterval(sync, CLOCK_RESYNC_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  return clockSample;
+}
@@ -132,7 +132,7 @@ export function useGame() {
       setError(null);
       
       // Update game status
-      const updatedGame = await gameOperations.updateGameStatus(gameId, 'in-progress');
+      const updatedGame = await gameOperations.updateGameStatus(gameId, 'round-active');
       
       // Get a random round type
       const roundType = Math.random() > 0.5 ? 'match' : 'unmatch';
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from 'react';
+import { createClient } from '@supabase/supabase-js';
+import { GAME_EVENT_TYPES, GameEventPayloads, GameEventType, getGameChannelName } from '../lib/gameEvents';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+// Create client only if URL and key are available (prevents build errors)
+const supabase = supabaseUrl && supabaseAnonKey
+  ? createClient(supabaseUrl, supabaseAnonKey)
+  : null;
+
+// Handlers for the events a page is interested in
+export type GameEventHandlers = {
+  [T in GameEventType]?: (payload: GameEventPayloads[T]) => void;
+};
+
+/**
+ * Listen to the events published on a game's channel
+ *
+ * Subscribes once per game and always calls the latest handlers, so handlers
+ * can use the page's current state without resubscribing on every render.
+ *
+ * @param gameId The game, nothing is subscribed until it is known
+ * @param handlers Functions called with the payload of each event type
+ */
+export function useGameEvents(gameId: string | null | undefined, handlers: GameEventHandlers): void {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!supabase || !gameId) return;
+
+    const channel = supabase.channel(getGameChannelName(gameId));
+
+    GAME_EVENT_TYPES.forEach(type => {
+      channel.on('broadcast', { event: type }, ({ payload }) => {
+        console.log(`Game event ${type}:`, payload);
+        const handler = handlersRef.current[type] as ((payload: unknown) => void) | undefined;
+        handler?.(payload);
+      });
+    });
+
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [gameId]);
+}
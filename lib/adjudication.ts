@@ -0,0 +1,271 @@
+import { createClient } from '@supabase/supabase-js';
+import { publishGameEvent } from './gameEvents';
+import { RevealGroup } from './roundReveal';
+import { AdjudicatedWords } from './scoreCalculator';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// How long players can contest words after submissions close, in seconds
+export const ADJUDICATION_SECONDS = 30;
+
+// Define types
+export type AdjudicationAction = 'strike' | 'merge';
+
+export const ADJUDICATION_ACTIONS: AdjudicationAction[] = ['strike', 'merge'];
+
+export type AdjudicationStatus = 'pending' | 'accepted' | 'rejected' | 'expired';
+
+// A word of the round players can contest, in canonical form
+export interface ContestableWord {
+  word: string;
+  players: { playerId: string; typed: string }[]; // each player who submitted it, with what they typed
+  invalid?: boolean; // missing from the topic's dictionary
+}
+
+// Row shape of the word_adjudications table
+export interface Adjudication {
+  id: string;
+  game_id: string;
+  round_id: string;
+  player_id: string; // the player who proposed it
+  action: AdjudicationAction;
+  words: string[]; // one word to strike, or the words to merge with the canonical word first
+  status: AdjudicationStatus;
+  decided_by: 'host' | 'vote' | null;
+  created_at: string;
+  decided_at: string | null;
+}
+
+// Row shape of the adjudication_votes table
+export interface AdjudicationVote {
+  adjudication_id: string;
+  player_id: string;
+  approve: boolean;
+}
+
+/**
+ * Check whether players can still contest a round's words
+ */
+export function isAdjudicationOpen(
+  round: { adjudication_deadline: string | null; end_time: string | null },
+  now = new Date()
+): boolean {
+  return !!round.adjudication_deadline
+    && !round.end_time
+    && new Date(round.adjudication_deadline).getTime() > now.getTime();
+}
+
+/**
+ * List the words players can contest from a round's preliminary results
+ *
+ * @param groups The round's words grouped as for the reveal, see buildRoundReveal
+ * @returns Every submitted word in alphabetical order
+ */
+export function toContestableWords(groups: RevealGroup[]): ContestableWord[] {
+  return groups
+    .flatMap(group => group.words.map(({ word, players, invalid }) => ({ word, players, invalid })))
+    .sort((a, b) => a.word.localeCompare(b.word));
+}
+
+/**
+ * Check a proposed adjudication against the round's contestable words
+ *
+ * @param action The requested action
+ * @param words The words the action applies to
+ * @param contestableWords The round's contestable words
+ * @returns A list of validation errors, empty when the proposal is valid
+ */
+export function validateAdjudication(
+  action: unknown,
+  words: unknown,
+  contestableWords: ContestableWord[]
+): string[] {
+  const errors: string[] = [];
+
+  if (!ADJUDICATION_ACTIONS.includes(action as AdjudicationAction)) {
+    errors.push(`action must be one of: ${ADJUDICATION_ACTIONS.join(', ')}`);
+  }
+
+  if (!Array.isArray(words) || words.some(word => typeof word !== 'string')) {
+    errors.push('words must be an array of words');
+    return errors;
+  }
+
+  if (action === 'strike' && words.length !== 1) {
+    errors.push('Strike exactly one word');
+  }
+
+  if (action === 'merge' && new Set(words).size < 2) {
+    errors.push('Merge at least two different words');
+  }
+
+  words
+    .filter(word => !contestableWords.some(contestable => contestable.word === word))
+    .forEach(word => errors.push(`"${word}" was not submitted this round`));
+
+  return errors;
+}
+
+/**
+ * Decide a proposal from its votes
+ *
+ * A proposal is accepted once more than half of the game's players approve it,
+ * and rejected once enough players reject it that a majority is out of reach.
+ *
+ * @param votes The votes cast on the proposal
+ * @param playerCount The number of players in the game
+ * @returns The outcome, or null while the vote is undecided
+ */
+export function getVoteOutcome(votes: AdjudicationVote[], playerCount: number): 'accepted' | 'rejected' | null {
+  const approvals = votes.filter(vote => vote.approve).length;
+  const rejections = votes.length - approvals;
+
+  if (approvals > playerCount / 2) {
+    return 'accepted';
+  }
+  if (rejections >= playerCount / 2) {
+    return 'rejected';
+  }
+  return null;
+}
+
+/**
+ * Combine a round's accepted adjudications into the words scoring should change
+ *
+ * Merges that share a word are joined into one group, whose canonical word is
+ * the first word of the earliest merge.
+ *
+ * @param adjudications The round's adjudications
+ * @returns The struck words and merge groups
+ */
+export function toAdjudicatedWords(adjudications: Adjudication[]): AdjudicatedWords {
+  const accepted = adjudications
+    .filter(adjudication => adjudication.status === 'accepted')
+    .sort((a, b) => (a.decided_at || '').localeCompare(b.decided_at || ''));
+
+  const struckWords = accepted
+    .filter(adjudication => adjudication.action === 'strike')
+    .flatMap(adjudication => adjudication.words);
+
+  let mergedWords: string[][] = [];
+  accepted
+    .filter(adjudication => adjudication.action === 'merge')
+    .forEach(adjudication => {
+      const overlapping = mergedWords.filter(group => group.some(word => adjudication.words.includes(word)));
+      const joined = [...overlapping.flat(), ...adjudication.words];
+
+      mergedWords = [
+        ...mergedWords.filter(group => !overlapping.includes(group)),
+        joined.filter((word, index) => joined.indexOf(word) === index)
+      ];
+    });
+
+  return { struckWords: Array.from(new Set(struckWords)), mergedWords };
+}
+
+/**
+ * Get the words scoring should change for a round, from its accepted adjudications
+ *
+ * @param roundId The ID of the round
+ * @returns The struck words and merge groups, empty when nothing was accepted
+ */
+export async function getAdjudicatedWords(roundId: string): Promise<AdjudicatedWords> {
+  const { data, error } = await supabase
+    .from('word_adjudications')
+    .select('*')
+    .eq('round_id', roundId)
+    .eq('status', 'accepted');
+
+  if (error) {
+    console.error(`Error loading adjudications for round ${roundId}:`, error);
+    throw error;
+  }
+
+  return toAdjudicatedWords((data || []) as Adjudication[]);
+}
+
+/**
+ * Record the decision on a pending proposal
+ *
+ * Only pending proposals are updated, so a proposal decided by the host and by
+ * a vote at the same time keeps the first decision.
+ *
+ * @param adjudicationId The ID of the proposal
+ * @param status The decision
+ * @param decidedBy Whether the host or a player vote decided it
+ * @returns The updated proposal, or null when it had already been decided
+ */
+export async function decideAdjudication(
+  adjudicationId: string,
+  status: 'accepted' | 'rejected',
+  decidedBy: 'host' | 'vote'
+): Promise<Adjudication | null> {
+  const { data, error } = await supabase
+    .from('word_adjudications')
+    .update({ status, decided_by: decidedBy, decided_at: new Date().toISOString() })
+    .eq('id', adjudicationId)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  const decided = data as Adjudication | null;
+  if (decided) {
+    await publishGameEvent(decided.game_id, 'adjudication_changed', { adjudication: decided });
+  }
+
+  return decided;
+}
+
+/**
+ * Decide a pending proposal once its votes reach an outcome
+ *
+ * @param adjudicationId The ID of the proposal
+ * @param gameId The game the proposal belongs to
+ * @returns The decided proposal, or null while the vote is undecided
+ */
+export async function settleAdjudicationVote(adjudicationId: string, gameId: string): Promise<Adjudication | null> {
+  const [{ data: votes, error: votesError }, { count: playerCount, error: countError }] = await Promise.all([
+    supabase.from('adjudication_votes').select('adjudication_id, player_id, approve').eq('adjudication_id', adjudicationId),
+    supabase.from('players').select('*', { count: 'exact', head: true }).eq('game_id', gameId)
+  ]);
+
+  if (votesError || countError) {
+    throw votesError || countError;
+  }
+
+  const outcome = getVoteOutcome(votes || [], playerCount || 0);
+  if (!outcome) {
+    return null;
+  }
+
+  return decideAdjudication(adjudicationId, outcome, 'vote');
+}
+
+/**
+ * Mark the proposals still pending when a round is scored as expired
+ *
+ * @param roundId The ID of the round
+ */
+export async function expirePendingAdjudications(roundId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('word_adjudications')
+    .update({ status: 'expired', decided_at: new Date().toISOString() })
+    .eq('round_id', roundId)
+    .eq('status', 'pending')
+    .select();
+
+  if (error) {
+    throw error;
+  }
+
+  await Promise.all(((data || []) as Adjudication[]).map(adjudication =>
+    publishGameEvent(adjudication.game_id, 'adjudication_changed', { adjudication })
+  ));
+}
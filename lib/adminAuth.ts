@@ -0,0 +1,29 @@
+import type { NextApiRequest } from 'next';
+
+/**
+ * Check whether a request carries the admin API key
+ *
+ * Admin routes are closed until ADMIN_API_KEY is configured, and then only
+ * accept requests with an `Authorization: Bearer <key>` header.
+ *
+ * @param req The incoming request
+ * @returns True when the request may use admin routes
+ */
+export function isAdminRequest(req: NextApiRequest): boolean {
+  const adminApiKey = process.env.ADMIN_API_KEY;
+  return !!adminApiKey && req.headers.authorization === `Bearer ${adminApiKey}`;
+}
+
+/**
+ * Check whether a request carries the cron secret
+ *
+ * Scheduled routes are closed until CRON_SECRET is configured. Vercel sends it
+ * as an `Authorization: Bearer <secret>` header with every cron invocation.
+ *
+ * @param req The incoming request
+ * @returns True when the request may run scheduled jobs
+ */
+export function isCronRequest(req: NextApiRequest): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  return !!cronSecret && req.headers.authorization === `Bearer ${cronSecret}`;
+}
@@ -0,0 +1,102 @@
+// Define types
+
+// One exchange with the server time endpoint
+export interface ClockSample {
+  offset: number; // milliseconds to add to the local clock to get the server time
+  roundTrip: number; // milliseconds between sending the request and receiving the response
+}
+
+// Requests made for each sync, the fastest ones give the best estimate
+export const CLOCK_SYNC_SAMPLES = 5;
+
+// How often pages sync their clock again, in milliseconds
+export const CLOCK_RESYNC_INTERVAL_MS = 60000;
+
+// Offset found by the last successful sync, zero until then
+let clockOffset = 0;
+
+/**
+ * Measure the clock offset from one request to the server time endpoint
+ *
+ * Assumes the server read its clock halfway through the round trip.
+ *
+ * @param sentAt Local time the request was sent
+ * @param serverTime Time reported by the server
+ * @param receivedAt Local time the response arrived
+ */
+export function measureClockSample(sentAt: number, serverTime: number, receivedAt: number): ClockSample {
+  const roundTrip = Math.max(0, receivedAt - sentAt);
+  return {
+    offset: serverTime + roundTrip / 2 - receivedAt,
+    roundTrip
+  };
+}
+
+/**
+ * Estimate the clock offset from several samples
+ *
+ * Slow requests spend an unknown share of their round trip on each leg, so only
+ * the faster half of the samples is used and the median offset among them wins.
+ *
+ * @param samples Samples measured with measureClockSample
+ * @returns The estimate, with the round trip of the sample it came from, or null without samples
+ */
+export function estimateClockOffset(samples: ClockSample[]): ClockSample | null {
+  if (samples.length === 0) return null;
+
+  const fastest = [...samples]
+    .sort((a, b) => a.roundTrip - b.roundTrip)
+    .slice(0, Math.ceil(samples.length / 2))
+    .sort((a, b) => a.offset - b.offset);
+
+  return fastest[Math.floor((fastest.length - 1) / 2)];
+}
+
+/**
+ * Estimate the offset between the local clock and the server's
+ *
+ * Makes one request at a time to /api/time and keeps the estimate for
+ * getServerTime. Failed requests are skipped, and when every request fails the
+ * previous offset is kept.
+ *
+ * @param sampleCount Number of requests to make
+ * @returns The estimate, or null when no request succeeded
+ */
+export async function syncClock(sampleCount = CLOCK_SYNC_SAMPLES): Promise<ClockSample | null> {
+  const samples: ClockSample[] = [];
+
+  for (let i = 0; i < sampleCount; i++) {
+    try {
+      const sentAt = Date.now();
+      const response = await fetch('/api/time', { cache: 'no-store' });
+      const receivedAt = Date.now();
+
+      if (!response.ok) {
+        throw new Error(`Server time request failed with status ${response.status}`);
+      }
+
+      const { serverTime } = await response.json();
+      samples.push(measureClockSample(sentAt, serverTime, receivedAt));
+    } catch (error) {
+      console.error('Error fetching server time:', error);
+    }
+  }
+
+  const estimate = estimateClockOffset(samples);
+
+  if (estimate) {
+    clockOffset = estimate.offset;
+  }
+
+  return estimate;
+}
+
+/**
+ * Get the current server time in milliseconds, using the last sync's offset
+ *
+ * Every countdown should read the time from here instead of Date.now(), so
+ * players with skewed clocks see the same time left as everyone else.
+ */
+export function getServerTime(): number {
+  return Date.now() + clockOffset;
+}
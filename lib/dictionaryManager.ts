@@ -0,0 +1,15 @@
+import { dictionaries } from '../data/dictionaries';
+import { DictionaryEntry } from './topicDictionary';
+
+/**
+ * Get the bundled dictionary of a topic
+ *
+ * @param topicId The topic id
+ * @returns The topic's valid answers, or undefined when the topic has no dictionary
+ */
+export function getTopicDictionary(topicId: string | null | undefined): DictionaryEntry[] | undefined {
+  if (!topicId || !Object.prototype.hasOwnProperty.call(dictionaries, topicId)) {
+    return undefined;
+  }
+  return dictionaries[topicId];
+}
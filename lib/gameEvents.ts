@@ -0,0 +1,112 @@
+import { createClient } from '@supabase/supabase-js';
+import { GameSettings } from './gameSettings';
+import type { GameStatus } from './gameState';
+import type { Adjudication, AdjudicationVote } from './adjudication';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Define types
+
+// A row of the players table, as sent with events
+export interface GameEventPlayer {
+  id: string;
+  game_id: string;
+  name: string;
+  is_host: boolean;
+  score: number;
+  [column: string]: unknown;
+}
+
+// A row of the rounds table, as sent with events
+export interface GameEventRound {
+  id: string;
+  game_id: string;
+  round_number: number;
+  [column: string]: unknown;
+}
+
+// Payload of each event published on a game's channel
+export interface GameEventPayloads {
+  player_joined: { player: GameEventPlayer };
+  settings_changed: { settings: GameSettings };
+  game_started: { gameId: string };
+  game_status_changed: { gameId: string; status: GameStatus }; // see lib/gameState.ts
+  round_started: { round: GameEventRound }; // the round was created, or its topic vote closed
+  topic_vote_cast: { vote: { round_id: string; player_id: string; topic_id: string } }; // replaces the player's earlier vote
+  words_submitted: { roundId: string; playerId: string; lockedIn: boolean }; // the words stay private until the round ends
+  submission_count_changed: {
+    roundId: string;
+    submitted: number; // players with submitted words
+    lockedIn: number; // players who locked in
+    players: number;
+  };
+  round_updated: { round: GameEventRound }; // the round's adjudication opened or closed
+  adjudication_changed: { adjudication: Adjudication }; // a proposal was made or decided
+  adjudication_vote_cast: { vote: AdjudicationVote }; // replaces the player's earlier vote
+  round_ended: { round: GameEventRound }; // the round was scored
+  game_completed: { gameId: string };
+  scores_updated: { gameId: string }; // ended rounds were re-scored
+}
+
+export type GameEventType = keyof GameEventPayloads;
+
+// Every event type, in the order they happen in a game
+export const GAME_EVENT_TYPES: GameEventType[] = [
+  'player_joined',
+  'settings_changed',
+  'game_started',
+  'game_status_changed',
+  'round_started',
+  'topic_vote_cast',
+  'words_submitted',
+  'submission_count_changed',
+  'round_updated',
+  'adjudication_changed',
+  'adjudication_vote_cast',
+  'round_ended',
+  'game_completed',
+  'scores_updated'
+];
+
+/**
+ * Get the name of a game's realtime channel
+ */
+export function getGameChannelName(gameId: string): string {
+  return `game:${gameId}`;
+}
+
+/**
+ * Publish an event to everyone watching a game
+ *
+ * Events are broadcast on the game's channel without storing them, so pages
+ * that are not open miss them and load the current state when they open.
+ * Failures are logged and never thrown, the change the event reports has
+ * already been saved.
+ *
+ * @param gameId The game
+ * @param type The event type
+ * @param payload The event payload
+ */
+export async function publishGameEvent<T extends GameEventType>(
+  gameId: string,
+  type: T,
+  payload: GameEventPayloads[T]
+): Promise<void> {
+  const channel = supabase.channel(getGameChannelName(gameId));
+
+  try {
+    // Without a subscription, the message is sent over HTTP
+    const status = await channel.send({ type: 'broadcast', event: type, payload });
+
+    if (status !== 'ok') {
+      console.error(`Error publishing ${type} for game ${gameId}:`, status);
+    }
+  } catch (error) {
+    console.error(`Error publishing ${type} for game ${gameId}:`, error);
+  } finally {
+    await supabase.removeChannel(channel);
+  }
+}
@@ -0,0 +1,292 @@
+import { getRoundTypes, getScoringRule } from './scoreCalculator';
+import { pickTopicForEntry, RoundPlanEntry, validateRoundPlan } from './roundPlan';
+import { DEFAULT_TOPIC_FILTER, describeTopicFilter, TopicFilter, validateTopicFilter } from './topicFilter';
+import { TopicsCollection } from './topicRegistry';
+
+// Define types
+export type RoundMix = 'alternate' | 'random' | 'match' | 'unmatch';
+
+// What happens to words missing from the topic's dictionary
+export type DictionaryCheck = 'off' | 'zero' | 'adjudicate';
+
+export interface GameSettings {
+  roundCount: number;
+  timePerRound: number; // seconds
+  wordsPerRound: number;
+  maxPlayers: number;
+  roundMix: RoundMix;
+  roundPlan: RoundPlanEntry[]; // when not empty, decides every round and the round count
+  topicFilter: TopicFilter; // tags and difficulties random topics are picked from
+  adjudication: boolean; // players can contest words before each round is scored
+  dictionaryCheck: DictionaryCheck; // only applies to topics with a bundled dictionary
+}
+
+// Columns of the games table that hold the settings
+export interface GameSettingsRow {
+  round_count: number;
+  time_per_round: number;
+  words_per_round: number;
+  max_players: number;
+  round_mix: RoundMix;
+  round_plan: RoundPlanEntry[];
+  topic_filter: Partial<TopicFilter>;
+  adjudication: boolean;
+  dictionary_check: DictionaryCheck;
+}
+
+interface NumberLimit {
+  min: number;
+  max: number;
+}
+
+// Settings used for new games
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  roundCount: 5,
+  timePerRound: 60,
+  wordsPerRound: 5,
+  maxPlayers: 8,
+  roundMix: 'alternate',
+  roundPlan: [],
+  topicFilter: DEFAULT_TOPIC_FILTER,
+  adjudication: false,
+  dictionaryCheck: 'off'
+};
+
+// Allowed range for each numeric setting
+export const GAME_SETTINGS_LIMITS: Record<Exclude<keyof GameSettings, 'roundMix' | 'roundPlan' | 'topicFilter' | 'adjudication' | 'dictionaryCheck'>, NumberLimit> = {
+  roundCount: { min: 1, max: 20 },
+  timePerRound: { min: 15, max: 300 },
+  wordsPerRound: { min: 1, max: 10 },
+  maxPlayers: { min: 2, max: 16 }
+};
+
+// Round mixes the host can choose from, with their lobby labels
+export const ROUND_MIX_OPTIONS: { value: RoundMix; label: string }[] = [
+  { value: 'alternate', label: 'Alternate match and unmatch' },
+  { value: 'random', label: 'Random' },
+  { value: 'match', label: 'Match rounds only' },
+  { value: 'unmatch', label: 'Unmatch rounds only' }
+];
+
+// Dictionary checks the host can choose from, with their lobby labels
+export const DICTIONARY_CHECK_OPTIONS: { value: DictionaryCheck; label: string }[] = [
+  { value: 'off', label: 'Accept any word' },
+  { value: 'zero', label: 'Words not in the topic\'s word list score zero' },
+  { value: 'adjudicate', label: 'Players decide on words not in the topic\'s word list' }
+];
+
+/**
+ * Read the settings stored on a games row, falling back to defaults for missing columns
+ *
+ * @param game A row from the games table
+ * @returns The game's settings
+ */
+export function getGameSettings(game: Partial<GameSettingsRow>): GameSettings {
+  return {
+    roundCount: game.round_count || DEFAULT_GAME_SETTINGS.roundCount,
+    timePerRound: game.time_per_round || DEFAULT_GAME_SETTINGS.timePerRound,
+    wordsPerRound: game.words_per_round || DEFAULT_GAME_SETTINGS.wordsPerRound,
+    maxPlayers: game.max_players || DEFAULT_GAME_SETTINGS.maxPlayers,
+    roundMix: game.round_mix || DEFAULT_GAME_SETTINGS.roundMix,
+    roundPlan: game.round_plan || DEFAULT_GAME_SETTINGS.roundPlan,
+    topicFilter: { ...DEFAULT_GAME_SETTINGS.topicFilter, ...game.topic_filter },
+    adjudication: game.adjudication ?? DEFAULT_GAME_SETTINGS.adjudication,
+    dictionaryCheck: game.dictionary_check || DEFAULT_GAME_SETTINGS.dictionaryCheck
+  };
+}
+
+/**
+ * Convert settings into the columns of the games table
+ *
+ * @param settings The game settings
+ * @returns Values to insert into or update on the games table
+ */
+export function toGameSettingsRow(settings: GameSettings): GameSettingsRow {
+  return {
+    round_count: settings.roundCount,
+    time_per_round: settings.timePerRound,
+    words_per_round: settings.wordsPerRound,
+    max_players: settings.maxPlayers,
+    round_mix: settings.roundMix,
+    round_plan: settings.roundPlan,
+    topic_filter: settings.topicFilter,
+    adjudication: settings.adjudication,
+    dictionary_check: settings.dictionaryCheck
+  };
+}
+
+/**
+ * Validate a settings update and merge it into the current settings
+ *
+ * @param current The game's current settings
+ * @param input The requested changes, usually from a request body
+ * @param topics The topics the game draws from, used to check the round plan
+ * @returns The merged settings, or a list of validation errors
+ */
+export function validateGameSettings(
+  current: GameSettings,
+  input: unknown,
+  topics: TopicsCollection
+): { settings: GameSettings; errors: string[] } {
+  const errors: string[] = [];
+  const settings: GameSettings = { ...current };
+
+  if (!input || typeof input !== 'object') {
+    return { settings, errors: ['Settings must be an object'] };
+  }
+
+  const values = input as Record<string, unknown>;
+
+  // Validate the numeric settings against their limits
+  (Object.keys(GAME_SETTINGS_LIMITS) as (keyof typeof GAME_SETTINGS_LIMITS)[]).forEach(key => {
+    if (values[key] === undefined) return;
+
+    const value = values[key];
+    const { min, max } = GAME_SETTINGS_LIMITS[key];
+
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      errors.push(`${key} must be a whole number`);
+    } else if (value < min || value > max) {
+      errors.push(`${key} must be between ${min} and ${max}`);
+    } else {
+      settings[key] = value;
+    }
+  });
+
+  // Validate the round mix
+  if (values.roundMix !== undefined) {
+    if (ROUND_MIX_OPTIONS.some(option => option.value === values.roundMix)) {
+      settings.roundMix = values.roundMix as RoundMix;
+    } else {
+      errors.push(`roundMix must be one of: ${ROUND_MIX_OPTIONS.map(option => option.value).join(', ')}`);
+    }
+  }
+
+  // Validate the adjudication switch
+  if (values.adjudication !== undefined) {
+    if (typeof values.adjudication === 'boolean') {
+      settings.adjudication = values.adjudication;
+    } else {
+      errors.push('adjudication must be true or false');
+    }
+  }
+
+  // Validate the dictionary check
+  if (values.dictionaryCheck !== undefined) {
+    if (DICTIONARY_CHECK_OPTIONS.some(option => option.value === values.dictionaryCheck)) {
+      settings.dictionaryCheck = values.dictionaryCheck as DictionaryCheck;
+    } else {
+      errors.push(`dictionaryCheck must be one of: ${DICTIONARY_CHECK_OPTIONS.map(option => option.value).join(', ')}`);
+    }
+  }
+
+  // Validate the round plan, which also sets the number of rounds
+  if (values.roundPlan !== undefined) {
+    const { plan, errors: planErrors } = validateRoundPlan(values.roundPlan, topics);
+    const { max } = GAME_SETTINGS_LIMITS.roundCount;
+
+    if (planErrors.length > 0) {
+      errors.push(...planErrors);
+    } else if (plan.length > max) {
+      errors.push(`roundPlan cannot have more than ${max} rounds`);
+    } else {
+      settings.roundPlan = plan;
+    }
+  }
+
+  if (settings.roundPlan.length > 0) {
+    settings.roundCount = settings.roundPlan.length;
+  }
+
+  // Validate the topic filter
+  if (values.topicFilter !== undefined) {
+    const { filter, errors: filterErrors } = validateTopicFilter(values.topicFilter);
+
+    if (filterErrors.length > 0) {
+      errors.push(...filterErrors);
+    } else {
+      settings.topicFilter = filter;
+    }
+  }
+
+  // Make sure the topic filter leaves a topic for every round the game can play
+  if (errors.length === 0) {
+    errors.push(...findRoundsWithoutTopics(settings, topics));
+  }
+
+  return { settings, errors };
+}
+
+/**
+ * Find rounds that would have no topic to pick from
+ *
+ * @param settings The game's settings
+ * @param topics The topics the game draws from
+ * @returns An error for each planned round, or each round type of the round mix, without topics
+ */
+function findRoundsWithoutTopics(settings: GameSettings, topics: TopicsCollection): string[] {
+  const filterDescription = describeTopicFilter(settings.topicFilter);
+
+  const hasTopic = (entry: RoundPlanEntry) => {
+    const scoringRule = getScoringRule(entry.type);
+    return !!scoringRule && !!pickTopicForEntry(topics[scoringRule.topicPool], entry, [], settings.topicFilter);
+  };
+
+  if (settings.roundPlan.length > 0) {
+    return settings.roundPlan
+      .map((entry, index) => hasTopic(entry) ? '' : `Round ${index + 1} has no topics matching the topic filter (${filterDescription})`)
+      .filter(error => error !== '');
+  }
+
+  const roundTypes = settings.roundMix === 'match' || settings.roundMix === 'unmatch'
+    ? [settings.roundMix]
+    : getRoundTypes();
+
+  return roundTypes
+    .filter(type => !hasTopic({ type }))
+    .map(type => `No ${type} topics match the topic filter (${filterDescription})`);
+}
+
+/**
+ * Get the plan entry for a round
+ *
+ * Uses the game's round plan when it has one, otherwise picks the round type
+ * from the round mix and leaves the topic to be chosen at random.
+ *
+ * @param settings The game's settings
+ * @param roundNumber The 1-based round number
+ * @returns The round's type and optional fixed topic or topic tag
+ */
+export function getRoundPlanEntry(settings: GameSettings, roundNumber: number): RoundPlanEntry {
+  const plannedRound = settings.roundPlan[roundNumber - 1];
+  if (plannedRound) {
+    return plannedRound;
+  }
+
+  return { type: getRoundTypeForRound(roundNumber, settings.roundMix) };
+}
+
+/**
+ * Pick the round type for a round according to the game's round mix
+ *
+ * 'alternate' cycles through the registered round types, so odd rounds are
+ * unmatch rounds and even rounds are match rounds.
+ *
+ * @param roundNumber The 1-based round number
+ * @param roundMix The game's round mix
+ * @returns The round type for the round
+ */
+export function getRoundTypeForRound(roundNumber: number, roundMix: RoundMix): string {
+  const roundTypes = getRoundTypes();
+
+  switch (roundMix) {
+    case 'match':
+    case 'unmatch':
+      return roundMix;
+    case 'random':
+      return roundTypes[Math.floor(Math.random() * roundTypes.length)];
+    case 'alternate':
+    default:
+      return roundTypes[roundNumber % roundTypes.length];
+  }
+}
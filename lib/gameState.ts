@@ -0,0 +1,281 @@
+import { createClient } from '@supabase/supabase-js';
+import { publishGameEvent } from './gameEvents';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Define types
+
+// Where a game is in its lifecycle, stored in games.status
+export type GameStatus = 'lobby' | 'round-active' | 'reveal' | 'paused' | 'abandoned' | 'completed';
+
+export const GAME_STATUSES: GameStatus[] = ['lobby', 'round-active', 'reveal', 'paused', 'abandoned', 'completed'];
+
+// The statuses a game can move to from each status
+// lobby -> round-active -> reveal -> round-active -> ... -> completed, and a game
+// being played can be paused and resumed, or abandoned by the host
+export const GAME_TRANSITIONS: Record<GameStatus, GameStatus[]> = {
+  lobby: ['round-active', 'abandoned'],
+  'round-active': ['reveal', 'completed', 'paused', 'abandoned'],
+  reveal: ['round-active', 'paused', 'abandoned'],
+  paused: ['round-active', 'reveal', 'abandoned'],
+  abandoned: [],
+  completed: []
+};
+
+// Text shown to players for each status
+export const GAME_STATUS_LABELS: Record<GameStatus, string> = {
+  lobby: 'Waiting for players',
+  'round-active': 'Round in progress',
+  reveal: 'Round results',
+  paused: 'Paused',
+  abandoned: 'Ended by the host',
+  completed: 'Game over'
+};
+
+// Changes of status the host asks for, the others follow from how the game is played
+export type HostGameAction = 'pause' | 'resume' | 'abandon';
+
+export const HOST_GAME_ACTIONS: HostGameAction[] = ['pause', 'resume', 'abandon'];
+
+export interface GameTransition {
+  transitioned: boolean; // false when the game was not in the expected status
+  status: GameStatus | null; // the game's status after the call, null if the game was not found
+  error?: string; // why the transition is not allowed
+}
+
+/**
+ * Check whether a value is a known game status
+ */
+export function isGameStatus(value: unknown): value is GameStatus {
+  return typeof value === 'string' && (GAME_STATUSES as string[]).includes(value);
+}
+
+/**
+ * Check whether a game can move from one status to another
+ */
+export function canTransition(from: GameStatus, to: GameStatus): boolean {
+  return GAME_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Check whether a game has left the lobby
+ */
+export function isGameStarted(status: GameStatus): boolean {
+  return status !== 'lobby';
+}
+
+/**
+ * Check whether a game has finished, either played to the end or abandoned
+ */
+export function isGameOver(status: GameStatus): boolean {
+  return GAME_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Check whether the host can pause a game in this status
+ */
+export function canPause(status: GameStatus): boolean {
+  return canTransition(status, 'paused');
+}
+
+/**
+ * Check that a game's current round is being played
+ *
+ * Rounds stand still while the game is paused, so players cannot submit,
+ * vote or contest words until it resumes.
+ *
+ * @param status The game's status, null if the game was not found
+ * @param action What the player is trying to do, for the error ("submit words")
+ * @returns Why the action is not allowed, or null while the round is being played
+ */
+export function checkRoundActive(status: string | null, action: string): string | null {
+  return status === 'round-active' ? null : `Cannot ${action} while the game is ${status || 'missing'}`;
+}
+
+/**
+ * Get the status a paused game returns to, from its current round
+ *
+ * A round that has ended is being revealed, any other round is still being played.
+ */
+export function getResumeStatus(round: { end_time: string | null } | null): GameStatus {
+  return round?.end_time ? 'reveal' : 'round-active';
+}
+
+/**
+ * Move a game from one status to another
+ *
+ * The update only applies while the game is still in the expected status, so
+ * when two requests race only one of them moves the game. Players are told
+ * about the new status.
+ *
+ * @param gameId The game
+ * @param from The status the game is expected to be in
+ * @param to The status to move to
+ * @param changes Other columns of the games table to update with the status
+ * @returns Whether this call moved the game
+ */
+export async function transitionGame(
+  gameId: string,
+  from: GameStatus,
+  to: GameStatus,
+  changes: Record<string, unknown> = {}
+): Promise<GameTransition> {
+  if (!canTransition(from, to)) {
+    return { transitioned: false, status: from, error: `Cannot move the game from ${from} to ${to}` };
+  }
+
+  const { data: updatedGames, error: updateError } = await supabase
+    .from('games')
+    .update({ ...changes, status: to })
+    .eq('id', gameId)
+    .eq('status', from)
+    .select('id');
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  if (!updatedGames || updatedGames.length === 0) {
+    const status = await getGameStatus(gameId);
+    console.log(`Game ${gameId} was not ${from}, it is ${status}`);
+    return { transitioned: false, status };
+  }
+
+  await publishGameEvent(gameId, 'game_status_changed', { gameId, status: to });
+
+  console.log(`Game ${gameId} moved from ${from} to ${to}`);
+  return { transitioned: true, status: to };
+}
+
+/**
+ * Get a game's current status
+ *
+ * @returns The status, or null if the game was not found
+ */
+export async function getGameStatus(gameId: string): Promise<GameStatus | null> {
+  const { data: game, error: gameError } = await supabase
+    .from('games')
+    .select('status')
+    .eq('id', gameId)
+    .maybeSingle();
+
+  if (gameError) {
+    throw gameError;
+  }
+
+  return game && isGameStatus(game.status) ? game.status : null;
+}
+
+/**
+ * Pause a game that is being played
+ *
+ * Remembers when the game was paused, so resumeGame can push the current
+ * round's deadlines back by the time the game spent paused.
+ */
+export async function pauseGame(gameId: string): Promise<GameTransition> {
+  const status = await getGameStatus(gameId);
+
+  if (!status) {
+    return { transitioned: false, status: null, error: 'Game not found' };
+  }
+
+  if (status === 'paused') {
+    return { transitioned: false, status };
+  }
+
+  if (!canPause(status)) {
+    return { transitioned: false, status, error: `The game cannot be paused while it is ${status}` };
+  }
+
+  return transitionGame(gameId, status, 'paused', { paused_at: new Date().toISOString() });
+}
+
+/**
+ * End a game that has not finished, keeping its scores so far
+ */
+export async function abandonGame(gameId: string): Promise<GameTransition> {
+  const status = await getGameStatus(gameId);
+
+  if (!status) {
+    return { transitioned: false, status: null, error: 'Game not found' };
+  }
+
+  if (status === 'abandoned') {
+    return { transitioned: false, status };
+  }
+
+  return transitionGame(gameId, status, 'abandoned');
+}
+
+/**
+ * Resume a paused game where it left off
+ *
+ * The resume_game database function moves every deadline of the current round
+ * back by the time the game spent paused and restores the game's status in one
+ * transaction, so timers continue from where they stopped.
+ */
+export async function resumeGame(gameId: string): Promise<GameTransition> {
+  const { data: game, error: gameError } = await supabase
+    .from('games')
+    .select('status, current_round')
+    .eq('id', gameId)
+    .maybeSingle();
+
+  if (gameError) {
+    throw gameError;
+  }
+
+  if (!game || !isGameStatus(game.status)) {
+    return { transitioned: false, status: null, error: 'Game not found' };
+  }
+
+  if (game.status !== 'paused') {
+    return { transitioned: false, status: game.status };
+  }
+
+  const { data: round, error: roundError } = await supabase
+    .from('rounds')
+    .select('end_time')
+    .eq('game_id', gameId)
+    .eq('round_number', game.current_round)
+    .maybeSingle();
+
+  if (roundError) {
+    throw roundError;
+  }
+
+  const resumeStatus = getResumeStatus(round);
+
+  const { data: resumed, error: resumeError } = await supabase.rpc('resume_game', {
+    p_game_id: gameId,
+    p_status: resumeStatus
+  });
+
+  if (resumeError) {
+    throw resumeError;
+  }
+
+  if (!resumed) {
+    return { transitioned: false, status: await getGameStatus(gameId) };
+  }
+
+  // Players reload the round to pick up its new deadlines
+  const { data: resumedRound } = await supabase
+    .from('rounds')
+    .select('*')
+    .eq('game_id', gameId)
+    .eq('round_number', game.current_round)
+    .maybeSingle();
+
+  if (resumedRound) {
+    await publishGameEvent(gameId, 'round_updated', { round: resumedRound });
+  }
+
+  await publishGameEvent(gameId, 'game_status_changed', { gameId, status: resumeStatus });
+
+  console.log(`Game ${gameId} resumed as ${resumeStatus}`);
+  return { transitioned: true, status: resumeStatus };
+}
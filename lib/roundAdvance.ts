@@ -0,0 +1,165 @@
+import { createClient } from '@supabase/supabase-js';
+import { publishGameEvent } from './gameEvents';
+import { getGameSettings, getRoundPlanEntry } from './gameSettings';
+import { transitionGame } from './gameState';
+import { getUsedTopicIds, pickTopicCandidates } from './roundPlan';
+import { getScoringRule } from './scoreCalculator';
+import { describeTopicFilter } from './topicFilter';
+import { getGameTopics } from './topicPacks';
+import { getRoundTopicFields, TOPIC_VOTE_CANDIDATES } from './topicVote';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
+
+// Define types
+export interface RoundAdvance {
+  started: boolean; // false when the next round had already been started
+  roundNumber: number; // the game's current round after the call
+  error?: string; // why the next round could not be started
+}
+
+/**
+ * Start the round after a round whose results are being revealed
+ *
+ * Called when the host advances or the reveal timer runs out. Safe to call more
+ * than once: rounds are unique per game and round number, so only the first
+ * call creates the next round.
+ *
+ * @param gameId The game ID
+ * @param roundNumber The number of the round that just ended
+ * @returns Whether this call started the next round
+ */
+export async function startNextRound(gameId: string, roundNumber: number): Promise<RoundAdvance> {
+  const { data: game, error: gameError } = await supabase
+    .from('games')
+    .select('status, round_count, current_round, time_per_round, round_mix, round_plan, topic_filter, topic_pack_ids')
+    .eq('id', gameId)
+    .single();
+
+  if (gameError || !game) {
+    throw gameError || new Error('Game not found');
+  }
+
+  // Reveals stop while the game is paused, and resume with their time left
+  if (game.status === 'paused') {
+    return { started: false, roundNumber, error: 'The game is paused' };
+  }
+
+  // The game has moved on, so the round's reveal is over
+  if (game.status !== 'reveal' || game.current_round !== roundNumber) {
+    await supabase
+      .from('rounds')
+      .update({ reveal_deadline: null })
+      .eq('game_id', gameId)
+      .eq('round_number', roundNumber);
+
+    return { started: false, roundNumber: game.current_round };
+  }
+
+  if (game.current_round >= game.round_count) {
+    return { started: false, roundNumber: game.current_round, error: 'Maximum number of rounds reached' };
+  }
+
+  const { data: endedRound, error: roundError } = await supabase
+    .from('rounds')
+    .select('id, end_time')
+    .eq('game_id', gameId)
+    .eq('round_number', roundNumber)
+    .single();
+
+  if (roundError || !endedRound) {
+    throw roundError || new Error('Round not found');
+  }
+
+  if (!endedRound.end_time) {
+    return { started: false, roundNumber, error: 'Current round is not completed yet' };
+  }
+
+  // Determine the next round type from the game's round plan or round mix
+  const nextRoundNumber = roundNumber + 1;
+  const settings = getGameSettings(game);
+  const { topicFilter } = settings;
+  const nextRound = getRoundPlanEntry(settings, nextRoundNumber);
+  const nextRoundType = nextRound.type;
+
+  // Select the candidate topics for the next round's topic vote from the topics
+  // that pass the game's topic filter, skipping topics the game has already played
+  // and falling back to random ones when the planned topic is missing from the game's topics
+  const gameTopics = await getGameTopics(game.topic_pack_ids);
+  const nextScoringRule = getScoringRule(nextRoundType);
+  const availableTopics = nextScoringRule ? gameTopics[nextScoringRule.topicPool] : [];
+  const usedTopicIds = await getUsedTopicIds(gameId);
+  let candidates = pickTopicCandidates(
+    availableTopics, nextRound, TOPIC_VOTE_CANDIDATES, usedTopicIds, topicFilter
+  );
+  if (candidates.length === 0 && (nextRound.topicId || nextRound.topicTag)) {
+    console.error('No topic matches the round plan entry, picking random topics:', nextRound);
+    candidates = pickTopicCandidates(
+      availableTopics, { type: nextRoundType }, TOPIC_VOTE_CANDIDATES, usedTopicIds, topicFilter
+    );
+  }
+  if (candidates.length === 0) {
+    const error = `No ${nextRoundType} topics match the game's topic filter (${describeTopicFilter(topicFilter)})`;
+    console.error(error);
+    return { started: false, roundNumber, error };
+  }
+
+  console.log('Candidate topic IDs:', candidates.map(topic => topic.id));
+
+  // Create a new round, which starts now with a single candidate and otherwise
+  // when its topic vote closes
+  const { data: round, error: insertError } = await supabase
+    .from('rounds')
+    .insert({
+      game_id: gameId,
+      round_number: nextRoundNumber,
+      type: nextRoundType,
+      ...getRoundTopicFields(candidates, settings.timePerRound),
+      end_time: null
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    // Another request started the next round first
+    if (insertError.code === UNIQUE_VIOLATION) {
+      console.log('Next round was started by another request for game', gameId);
+      return { started: false, roundNumber: nextRoundNumber };
+    }
+    throw insertError;
+  }
+
+  // End the reveal of the round before and make the new round the game's current round
+  const { error: updateRoundError } = await supabase
+    .from('rounds')
+    .update({ reveal_deadline: null })
+    .eq('id', endedRound.id);
+
+  if (updateRoundError) {
+    throw updateRoundError;
+  }
+
+  const { transitioned } = await transitionGame(gameId, 'reveal', 'round-active', { current_round: nextRoundNumber });
+
+  // The host paused the game in the meantime, it resumes into the new round
+  if (!transitioned) {
+    const { error: updateGameError } = await supabase
+      .from('games')
+      .update({ current_round: nextRoundNumber })
+      .eq('id', gameId);
+
+    if (updateGameError) {
+      throw updateGameError;
+    }
+  }
+
+  await publishGameEvent(gameId, 'round_started', { round });
+
+  console.log('Next round started:', nextRoundNumber);
+  return { started: true, roundNumber: nextRoundNumber };
+}
@@ -0,0 +1,299 @@
+import { createClient } from '@supabase/supabase-js';
+import { 
+  finalizeRoundScores, 
+  getStoredRoundScores, 
+  RoundFinalization 
+} from './scoreCalculator';
+import { buildRoundReveal, REVEAL_SECONDS } from './roundReveal';
+import { scoreRoundSubmissions, ScorableRound } from './roundScoring';
+import { countSubmissions, finalizeRoundDrafts, getRoundDeadline, isEveryoneLockedIn } from './submissions';
+import { publishGameEvent } from './gameEvents';
+import { GameStatus, getGameStatus, transitionGame } from './gameState';
+import { 
+  ADJUDICATION_SECONDS, 
+  expirePendingAdjudications, 
+  toContestableWords 
+} from './adjudication';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Define types
+export interface RoundEndResult extends RoundFinalization {
+  revealDeadline?: string; // when the next round starts unless the host advances first
+  adjudicationDeadline?: string; // set while players can still contest words, the round is scored after it
+  gameStatus?: GameStatus | null; // set when the game is not being played, the round then stays open
+  stillPlaying?: boolean; // set when the round's time is not up and some players have not locked in
+}
+
+/**
+ * End a round whose time is up, or whose players have all locked in
+ *
+ * Rounds that are still being played are left open. Used by /api/games/end-round and /api/games/close-overdue-rounds. Safe to
+ * call more than once: repeat calls for a round that has already ended return
+ * its stored scores. When the game uses adjudication, the first call opens it
+ * and the round is scored by the first call after it closes. Only the call
+ * that ended the round tells the players.
+ *
+ * @param roundId The ID of the round
+ * @returns The round's scores, or why it stays open
+ */
+export async function endRound(roundId: string): Promise<RoundEndResult> {
+  const result = await calculateRoundScores(roundId);
+
+  if (result.finalized) {
+    await publishRoundEnd(roundId);
+  }
+
+  return result;
+}
+
+/**
+ * Publish that a round ended, and that the game completed if it was the last round
+ */
+async function publishRoundEnd(roundId: string): Promise<void> {
+  const { data: round, error: roundError } = await supabase
+    .from('rounds')
+    .select('*')
+    .eq('id', roundId)
+    .single();
+
+  if (roundError || !round) {
+    console.error('Error loading ended round, players are not notified:', roundError);
+    return;
+  }
+
+  await publishGameEvent(round.game_id, 'round_ended', { round });
+
+  const { data: game, error: gameError } = await supabase
+    .from('games')
+    .select('status')
+    .eq('id', round.game_id)
+    .single();
+
+  if (gameError) {
+    console.error('Error checking game status:', gameError);
+  } else if (game?.status === 'completed') {
+    await publishGameEvent(round.game_id, 'game_completed', { gameId: round.game_id });
+  }
+}
+
+/**
+ * Open the round's adjudication if the game uses it
+ *
+ * Stores the words players can contest, from the round's scores before any
+ * adjudication, and the time the round is scored. Only the first call opens it.
+ * Games that send words missing from the topic's dictionary to adjudication open
+ * it whenever the round has such words.
+ *
+ * @returns The adjudication deadline, or null when the round is not adjudicated
+ */
+async function openAdjudication(
+  round: ScorableRound & { adjudication_deadline: string | null }
+): Promise<string | null> {
+  if (round.adjudication_deadline) {
+    return round.adjudication_deadline;
+  }
+
+  const { data: game, error: gameError } = await supabase
+    .from('games')
+    .select('adjudication, dictionary_check')
+    .eq('id', round.game_id)
+    .single();
+
+  if (gameError) {
+    console.error('Error checking game adjudication, scoring the round now:', gameError);
+    return null;
+  }
+
+  if (!game?.adjudication && game?.dictionary_check !== 'adjudicate') {
+    return null;
+  }
+
+  const preliminaryScores = await scoreRoundSubmissions(round, true);
+  const contestableWords = toContestableWords(buildRoundReveal(preliminaryScores));
+
+  if (!game.adjudication && !contestableWords.some(word => word.invalid)) {
+    return null;
+  }
+
+  const adjudicationDeadline = new Date(Date.now() + ADJUDICATION_SECONDS * 1000).toISOString();
+
+  const { data: openedRound, error: openError } = await supabase
+    .from('rounds')
+    .update({
+      adjudication_deadline: adjudicationDeadline,
+      adjudication_words: contestableWords
+    })
+    .eq('id', round.id)
+    .is('adjudication_deadline', null)
+    .select()
+    .maybeSingle();
+
+  if (openError) {
+    throw openError;
+  }
+
+  if (openedRound) {
+    console.log('Adjudication opened for round', round.id);
+    await publishGameEvent(round.game_id, 'round_updated', { round: openedRound });
+    return openedRound.adjudication_deadline;
+  }
+
+  // Another request opened the adjudication first
+  const { data: currentRound, error: roundError } = await supabase
+    .from('rounds')
+    .select('adjudication_deadline')
+    .eq('id', round.id)
+    .single();
+
+  if (roundError || !currentRound) {
+    throw roundError || new Error('Round not found');
+  }
+
+  return currentRound.adjudication_deadline;
+}
+
+/**
+ * Check whether a round's time is up or every player has locked in
+ */
+async function isRoundOver(
+  round: { game_id: string; start_time: string | null; deadline: string | null },
+  roundId: string
+): Promise<boolean> {
+  let timePerRound = 0;
+
+  // Rounds created before deadlines were stored last the game's time per round
+  if (!round.deadline) {
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('time_per_round')
+      .eq('id', round.game_id)
+      .single();
+
+    if (gameError || !game) {
+      throw gameError || new Error('Game not found');
+    }
+
+    timePerRound = game.time_per_round;
+  }
+
+  const deadline = getRoundDeadline(round, timePerRound);
+  if (deadline && deadline.getTime() <= Date.now()) {
+    return true;
+  }
+
+  return isEveryoneLockedIn(await countSubmissions(round.game_id, roundId));
+}
+
+async function calculateRoundScores(roundId: string): Promise<RoundEndResult> {
+  try {
+    // Get game ID from the round
+    const { data: roundData, error: roundError } = await supabase
+      .from('rounds')
+      .select('game_id, type, topic_id, start_time, deadline, end_time, adjudication_deadline')
+      .eq('id', roundId)
+      .single();
+
+    if (roundError || !roundData) {
+      throw roundError || new Error('Round not found');
+    }
+
+    // Don't score a round twice, return the scores that were already stored
+    if (roundData.end_time) {
+      console.log('Round already ended, returning stored scores for round', roundId);
+      return { finalized: false, scores: await getStoredRoundScores(roundId) };
+    }
+
+    // Paused and abandoned games keep their round open
+    const gameStatus = await getGameStatus(roundData.game_id);
+    if (gameStatus !== 'round-active') {
+      console.log('Not ending round', roundId, 'of a game that is', gameStatus);
+      return { finalized: false, scores: {}, gameStatus };
+    }
+
+    // A round ends once its time is up, or earlier once every player has locked in
+    // Rounds being adjudicated have already passed this check
+    if (!roundData.adjudication_deadline && !(await isRoundOver(roundData, roundId))) {
+      console.log('Not ending round', roundId, 'that is still being played');
+      return { finalized: false, scores: {}, stillPlaying: true };
+    }
+
+    // Submissions are closed, the drafts of players who never submitted become their words
+    await finalizeRoundDrafts(roundId);
+
+    // Let players contest words until the adjudication closes
+    const adjudicationDeadline = await openAdjudication({ id: roundId, ...roundData });
+    if (adjudicationDeadline && new Date(adjudicationDeadline).getTime() > Date.now()) {
+      console.log('Round is being adjudicated until', adjudicationDeadline);
+      return { finalized: false, scores: {}, adjudicationDeadline };
+    }
+
+    // Score the round from its submissions and accepted adjudications
+    const scores = await scoreRoundSubmissions({ id: roundId, ...roundData });
+    
+    // Save the scores and end the round in a single transaction
+    const finalization = await finalizeRoundScores(roundId, scores);
+
+    // Another request ended the round first, so it also handles advancing the game
+    if (!finalization.finalized) {
+      console.log('Round was ended by another request, skipping game advance for round', roundId);
+      return finalization;
+    }
+
+    // Proposals nobody decided in time are recorded as expired
+    if (adjudicationDeadline) {
+      try {
+        await expirePendingAdjudications(roundId);
+      } catch (expireError) {
+        console.error('Error expiring pending adjudications:', expireError);
+      }
+    }
+
+    // If this is the last round, the game is completed, otherwise its results are revealed
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('round_count, current_round')
+      .eq('id', roundData.game_id)
+      .single();
+
+    if (gameError) {
+      console.error('Error checking game status:', gameError);
+    } else if (game) {
+      console.log('Game status check:', { 
+        current_round: game.current_round, 
+        round_count: game.round_count,
+        isLastRound: game.current_round >= game.round_count
+      });
+      
+      if (game.current_round >= game.round_count) {
+        console.log('This is the last round. Setting game status to completed.');
+        await transitionGame(roundData.game_id, 'round-active', 'completed');
+      } else {
+        // Not the last round, reveal the round's results before the next round starts
+        // The next round starts when the host advances or the reveal timer runs out
+        const revealDeadline = new Date(Date.now() + REVEAL_SECONDS * 1000).toISOString();
+        
+        const { error: revealError } = await supabase
+          .from('rounds')
+          .update({ reveal_deadline: revealDeadline })
+          .eq('id', roundId);
+
+        await transitionGame(roundData.game_id, 'round-active', 'reveal');
+
+        if (revealError) {
+          console.error('Error setting reveal deadline:', revealError);
+        } else {
+          return { ...finalization, revealDeadline };
+        }
+      }
+    }
+
+    return finalization;
+  } catch (error) {
+    console.error('Error calculating round scores:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,171 @@
+import { createClient } from '@supabase/supabase-js';
+import { matchesTopicFilter, TopicFilter } from './topicFilter';
+import { Topic, TopicsCollection } from './topicRegistry';
+import { getScoringRule } from './scoreCalculator';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Define types
+export interface RoundPlanEntry {
+  type: string; // a registered round type
+  topicId?: string; // play this exact topic
+  topicTag?: string; // or pick a random topic with this tag
+}
+
+/**
+ * Validate a round plan, usually from a request body
+ *
+ * Every entry needs a registered round type. A fixed topic must exist in the
+ * round type's topic pool, and a topic tag must match at least one topic in it.
+ *
+ * @param input The requested round plan
+ * @param topics The topics the game draws from, see getGameTopics
+ * @returns The cleaned-up plan, or a list of validation errors
+ */
+export function validateRoundPlan(
+  input: unknown,
+  topics: TopicsCollection
+): { plan: RoundPlanEntry[]; errors: string[] } {
+  const errors: string[] = [];
+  const plan: RoundPlanEntry[] = [];
+
+  if (!Array.isArray(input)) {
+    return { plan, errors: ['roundPlan must be an array'] };
+  }
+
+  input.forEach((value, index) => {
+    const roundLabel = `Round ${index + 1}`;
+    const entry = (value || {}) as Record<string, unknown>;
+
+    const scoringRule = typeof entry.type === 'string' ? getScoringRule(entry.type) : undefined;
+    if (!scoringRule) {
+      errors.push(`${roundLabel} has an unknown round type`);
+      return;
+    }
+
+    const pool = topics[scoringRule.topicPool];
+    const planEntry: RoundPlanEntry = { type: scoringRule.type };
+
+    if (entry.topicId) {
+      if (!pool.some(topic => topic.id === entry.topicId)) {
+        errors.push(`${roundLabel} has a topic that is not available for ${scoringRule.type} rounds`);
+        return;
+      }
+      planEntry.topicId = entry.topicId as string;
+    } else if (entry.topicTag) {
+      if (!pool.some(topic => topic.tags?.includes(entry.topicTag as string))) {
+        errors.push(`${roundLabel} has a topic tag that matches no ${scoringRule.type} topics`);
+        return;
+      }
+      planEntry.topicTag = entry.topicTag as string;
+    }
+
+    plan.push(planEntry);
+  });
+
+  return { plan, errors };
+}
+
+/**
+ * Pick the topic for a round from its topic pool according to its plan entry
+ *
+ * Random picks only consider topics that pass the game's topic filter and skip
+ * topics the game has already played. Once every candidate has been played,
+ * the pool is reshuffled: the least played topics are picked from again.
+ * A fixed topic in the plan is always used as given.
+ *
+ * @param pool The topics available for the round's type
+ * @param entry The round's plan entry
+ * @param usedTopicIds Topic IDs of the game's earlier rounds, see getUsedTopicIds
+ * @param filter The game's topic filter, if it has one
+ * @returns The fixed topic, a random topic with the entry's tag, a random topic
+ * from the whole pool when the entry names neither, or undefined if nothing matches
+ */
+export function pickTopicForEntry<T extends Topic>(
+  pool: T[],
+  entry: RoundPlanEntry,
+  usedTopicIds: string[] = [],
+  filter?: TopicFilter
+): T | undefined {
+  if (entry.topicId) {
+    return pool.find(topic => topic.id === entry.topicId);
+  }
+
+  const candidates = pool.filter(topic =>
+    (!entry.topicTag || !!topic.tags?.includes(entry.topicTag))
+    && (!filter || matchesTopicFilter(topic, filter))
+  );
+
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  // Count how often each candidate has been played and keep the least played ones
+  const timesPlayed = (topic: T) => usedTopicIds.filter(id => id === topic.id).length;
+  const fewestPlays = Math.min(...candidates.map(timesPlayed));
+  const freshest = candidates.filter(topic => timesPlayed(topic) === fewestPlays);
+
+  return freshest[Math.floor(Math.random() * freshest.length)];
+}
+
+/**
+ * Pick several different topics a round could use, for the pre-round topic vote
+ *
+ * Candidates are picked one at a time with pickTopicForEntry, leaving out the
+ * candidates already picked so that the same topic is not offered twice.
+ *
+ * @param pool The topics available for the round's type
+ * @param entry The round's plan entry
+ * @param count How many candidates to pick at most
+ * @param usedTopicIds Topic IDs of the game's earlier rounds, see getUsedTopicIds
+ * @param filter The game's topic filter, if it has one
+ * @returns Up to count different topics, only the fixed topic when the entry names one
+ */
+export function pickTopicCandidates<T extends Topic>(
+  pool: T[],
+  entry: RoundPlanEntry,
+  count: number,
+  usedTopicIds: string[] = [],
+  filter?: TopicFilter
+): T[] {
+  const candidates: T[] = [];
+
+  while (candidates.length < count) {
+    const remaining = pool.filter(topic => !candidates.includes(topic));
+    const topic = pickTopicForEntry(remaining, entry, usedTopicIds, filter);
+
+    // Every matching topic has been picked already
+    if (!topic) {
+      break;
+    }
+
+    candidates.push(topic);
+  }
+
+  return candidates;
+}
+
+/**
+ * Get the topics a game has already played
+ *
+ * @param gameId The game ID
+ * @returns The topic ID of every round created for the game so far
+ */
+export async function getUsedTopicIds(gameId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('rounds')
+    .select('topic_id')
+    .eq('game_id', gameId);
+
+  if (error) {
+    console.error(`Error loading used topics for game ${gameId}:`, error);
+    throw error;
+  }
+
+  return (data || [])
+    .map(round => round.topic_id as string | null)
+    .filter((topicId): topicId is string => !!topicId);
+}
@@ -0,0 +1,64 @@
+import { PlayerScores } from './scoreCalculator';
+
+// How long players see a round's results before the next round starts, in seconds
+export const REVEAL_SECONDS = 20;
+
+// Define types
+export interface RevealedWord {
+  word: string; // the canonical word the players' answers were scored as
+  players: { playerId: string; typed: string }[]; // each player who submitted it, with what they typed
+  points: number; // points each of those players scored for it
+  invalid: boolean; // missing from the topic's dictionary
+}
+
+export interface RevealGroup {
+  sharedBy: number; // number of players who submitted each word in the group
+  words: RevealedWord[];
+}
+
+/**
+ * Group a round's words by how many players submitted them, for the reveal screen
+ *
+ * Built from the scoring ledger stored with the round's scores, so the points
+ * shown are exactly the points each player was awarded.
+ *
+ * @param scores The round's stored scores, see getStoredRoundScores
+ * @returns Groups from the most shared words to unique words, with words in alphabetical order
+ */
+export function buildRoundReveal(scores: PlayerScores): RevealGroup[] {
+  const revealedWords: { [word: string]: RevealedWord } = {};
+
+  Object.entries(scores).forEach(([playerId, playerScore]) => {
+    playerScore.ledger.forEach(entry => {
+      if (entry.reason === 'bonus' || entry.normalizedWord === null) return;
+
+      if (!revealedWords[entry.normalizedWord]) {
+        revealedWords[entry.normalizedWord] = {
+          word: entry.normalizedWord,
+          players: [],
+          points: entry.points,
+          invalid: entry.reason === 'invalid'
+        };
+      }
+
+      revealedWords[entry.normalizedWord].players.push({ playerId, typed: entry.word || entry.normalizedWord });
+    });
+  });
+
+  const groups: { [sharedBy: number]: RevealedWord[] } = {};
+
+  Object.keys(revealedWords).sort().forEach(word => {
+    const sharedBy = revealedWords[word].players.length;
+
+    if (!groups[sharedBy]) {
+      groups[sharedBy] = [];
+    }
+
+    groups[sharedBy].push(revealedWords[word]);
+  });
+
+  return Object.keys(groups)
+    .map(Number)
+    .sort((a, b) => b - a)
+    .map(sharedBy => ({ sharedBy, words: groups[sharedBy] }));
+}
@@ -0,0 +1,116 @@
+import { createClient } from '@supabase/supabase-js';
+import { getAdjudicatedWords } from './adjudication';
+import { getTopicDictionary } from './dictionaryManager';
+import { getGameSettings } from './gameSettings';
+import { calculateScoresWithRule, getScoringRule, PlayerScores } from './scoreCalculator';
+import { createDictionaryValidator } from './topicDictionary';
+import { getGameTopics } from './topicPacks';
+import { DEFAULT_NORMALIZERS } from './wordNormalizer';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Columns of the rounds table needed to score a round
+export interface ScorableRound {
+  id: string;
+  game_id: string;
+  type: string;
+  topic_id: string | null;
+}
+
+/**
+ * Score a round from its stored submissions
+ *
+ * Uses the current scoring rule of the round type, the game's current
+ * normalizers, word limit and topic aliases, and the round's accepted
+ * adjudications, so re-scoring an old round gives the result it would get if it
+ * ended now. Words missing from the topic's dictionary score zero when the game
+ * uses the 'zero' dictionary check.
+ *
+ * @param round The round to score
+ * @param preliminary Whether the round is scored before its adjudication, which
+ * also zeroes missing words in 'adjudicate' games so players can see which words to contest
+ * @returns Object with each player's score details, nothing is saved
+ */
+export async function scoreRoundSubmissions(round: ScorableRound, preliminary = false): Promise<PlayerScores> {
+  // Fetch the final submissions for this round, in the order they were submitted
+  const { data: submissionsData, error: submissionsError } = await supabase
+    .from('submissions')
+    .select('player_id, word')
+    .eq('round_id', round.id)
+    .eq('is_final', true)
+    .order('submitted_at');
+
+  if (submissionsError) {
+    throw submissionsError;
+  }
+
+  if (!submissionsData || submissionsData.length === 0) {
+    console.log('No submissions found for round', round.id);
+  }
+
+  // Organize submissions by player
+  const playerWords: { [playerId: string]: string[] } = {};
+
+  // Group submissions by player
+  (submissionsData || []).forEach(submission => {
+    if (!playerWords[submission.player_id]) {
+      playerWords[submission.player_id] = [];
+    }
+
+    if (submission.word && submission.word.trim() !== '') {
+      playerWords[submission.player_id].push(submission.word);
+    }
+  });
+
+  console.log('Player words for scoring:', playerWords);
+
+  // Get the word normalizers, word limit and topic packs configured for this game
+  const { data: gameSettings, error: settingsError } = await supabase
+    .from('games')
+    .select('normalizers, words_per_round, topic_pack_ids, dictionary_check')
+    .eq('id', round.game_id)
+    .single();
+
+  if (settingsError) {
+    console.error('Error loading game settings, using defaults:', settingsError);
+  }
+
+  const normalizers: string[] = gameSettings?.normalizers || DEFAULT_NORMALIZERS;
+  const { wordsPerRound, dictionaryCheck } = getGameSettings(gameSettings || {});
+  const gameTopics = await getGameTopics(gameSettings?.topic_pack_ids);
+
+  // Only score up to the game's words per round for each player
+  Object.keys(playerWords).forEach(playerId => {
+    playerWords[playerId] = playerWords[playerId].slice(0, wordsPerRound);
+  });
+
+  // Look up the scoring rule registered for this round type
+  const scoringRule = getScoringRule(round.type);
+  if (!scoringRule) {
+    throw new Error(`No scoring rule registered for round type: ${round.type}`);
+  }
+
+  // Get the alias groups of the round's topic so equivalent answers match
+  const roundTopic = gameTopics[scoringRule.topicPool]
+    .find(topic => topic.id === round.topic_id);
+  const aliases = roundTopic?.aliases || [];
+
+  // Check words against the topic's dictionary, when it has one
+  const dictionary = getTopicDictionary(round.topic_id);
+  const checkDictionary = dictionaryCheck === 'zero' || (dictionaryCheck === 'adjudicate' && preliminary);
+  const isValidWord = dictionary && checkDictionary
+    ? createDictionaryValidator(dictionary, normalizers, aliases)
+    : undefined;
+
+  // Get the words players struck or merged before the round was scored
+  const adjudicated = await getAdjudicatedWords(round.id);
+
+  // Calculate scores using the round type's scoring rule
+  const scores: PlayerScores = calculateScoresWithRule(scoringRule, playerWords, { normalizers, aliases, adjudicated, isValidWord });
+  console.log(`${scoringRule.copy.title} scores:`, scores);
+
+  return scores;
+}
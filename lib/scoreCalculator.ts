@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import { createNormalizer, DEFAULT_NORMALIZERS } from './wordNormalizer';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -10,78 +11,304 @@ interface PlayerWords {
   [playerId: string]: string[]; // array of words for each player
 }
 
-interface PlayerScores {
+export interface SubmittedWord {
+  typed: string; // the word exactly as the player entered it
+  canonical: string; // the normalized, alias-resolved form used for scoring
+}
+
+// Why a ledger entry awarded its points
+export type LedgerReason = 'match' | 'unique' | 'bonus' | 'penalty' | 'invalid';
+
+export const LEDGER_REASONS: LedgerReason[] = ['match', 'unique', 'bonus', 'penalty', 'invalid'];
+
+// Columns of the round_score_ledger table returned by the API
+export const LEDGER_COLUMNS = 'round_id, player_id, word, normalized_word, player_ids, points, reason';
+
+// One line of a player's scoring ledger: a scored word or the round bonus
+export interface LedgerEntry {
+  word: string | null; // the word as the player typed it, null for the bonus
+  normalizedWord: string | null; // the canonical form the word was scored as
+  playerIds: string[]; // every player who submitted the normalized word
+  points: number;
+  reason: LedgerReason;
+}
+
+export interface PlayerScores {
   [playerId: string]: {
     score: number;
     matchedWords: string[];
     bonusAwarded: boolean;
+    submittedWords: SubmittedWord[];
+    ledger: LedgerEntry[]; // adds up to score
   };
 }
 
+// Row shape of the round_score_ledger table
+export interface StoredLedgerEntry {
+  round_id: string;
+  player_id: string;
+  word: string | null;
+  normalized_word: string | null;
+  player_ids: string[] | null;
+  points: number;
+  reason: LedgerReason;
+}
+
+// Row shape of the round_scores table
+interface StoredRoundScore {
+  player_id: string;
+  score: number;
+  matched_words: string[] | null;
+  bonus_awarded: boolean | null;
+  submitted_words: SubmittedWord[] | null;
+  ledger?: StoredLedgerEntry[] | null; // returned by finalize_round
+}
+
+export interface RoundFinalization {
+  finalized: boolean; // false when the round had already been ended by an earlier call
+  scores: PlayerScores;
+}
+
+// Words changed by the round's accepted adjudications, in canonical form
+export interface AdjudicatedWords {
+  struckWords: string[]; // words that score nothing and do not count towards the bonus
+  mergedWords: string[][]; // groups of words that count as the same word, the first entry is canonical
+}
+
+interface ScoringOptions {
+  normalizers?: readonly string[]; // normalizer names from the game's settings
+  aliases?: readonly (readonly string[])[]; // topic alias groups, the first entry is canonical
+  adjudicated?: AdjudicatedWords;
+  isValidWord?: (word: string) => boolean; // checks a word as typed against the topic's dictionary
+}
+
 /**
- * Calculate scores for a match round
- * 
- * In a match round:
- * - Each matching word is worth +1 point for each player with that word
- * - If all of a player's words match with at least one other player, they get a +1 bonus
- * 
+ * Build a function that maps a submitted word to its canonical form
+ *
+ * Words are normalized first, then any word that belongs to one of the topic's
+ * alias groups is replaced by the group's first entry (e.g. "cougar" -> "puma").
+ * Adjudicated merges are applied to the result, and struck words become empty.
+ */
+function createCanonicalizer(options: ScoringOptions): (word: string) => string {
+  const normalize = createNormalizer(options.normalizers ?? DEFAULT_NORMALIZERS);
+
+  // Map every normalized alias to the canonical word of its group
+  const aliasToCanonical: { [alias: string]: string } = {};
+  (options.aliases || []).forEach(group => {
+    if (group.length === 0) return;
+    const canonical = group[0].toLowerCase().trim();
+    group.forEach(alias => {
+      aliasToCanonical[normalize(alias)] = canonical;
+    });
+  });
+
+  // Map every merged word to the canonical word of its merge group
+  const mergedToCanonical: { [word: string]: string } = {};
+  (options.adjudicated?.mergedWords || []).forEach(group => {
+    group.forEach(word => {
+      mergedToCanonical[word] = group[0];
+    });
+  });
+  const struckWords = new Set(options.adjudicated?.struckWords || []);
+
+  return (word: string) => {
+    const normalizedWord = normalize(word);
+    const canonicalWord = Object.prototype.hasOwnProperty.call(aliasToCanonical, normalizedWord)
+      ? aliasToCanonical[normalizedWord]
+      : normalizedWord;
+    const mergedWord = Object.prototype.hasOwnProperty.call(mergedToCanonical, canonicalWord)
+      ? mergedToCanonical[canonicalWord]
+      : canonicalWord;
+
+    // Striking a word also strikes the words merged into it
+    return struckWords.has(canonicalWord) || struckWords.has(mergedWord) ? '' : mergedWord;
+  };
+}
+
+/**
+ * Pair each non-empty word a player typed with its canonical form
+ */
+function toSubmittedWords(words: string[], canonicalize: (word: string) => string): SubmittedWord[] {
+  return words
+    .map(word => ({ typed: word.trim(), canonical: canonicalize(word) }))
+    .filter(submittedWord => submittedWord.canonical !== '');
+}
+
+/**
+ * Get the ledger reason for a word's points
+ */
+function getWordReason(points: number, sharedBy: number): LedgerReason {
+  if (points < 0) {
+    return 'penalty';
+  }
+  return sharedBy > 1 ? 'match' : 'unique';
+}
+
+/**
+ * Build a map of canonical words to the players who submitted them
+ *
+ * A player is listed at most once per word, so "Cat" and "cats" from the same
+ * player cannot match each other.
+ */
+function buildWordToPlayers(
+  playerWords: PlayerWords,
+  canonicalize: (word: string) => string
+): { [word: string]: string[] } {
+  const wordToPlayers: { [word: string]: string[] } = {};
+
+  Object.entries(playerWords).forEach(([playerId, words]) => {
+    words.forEach(word => {
+      const canonicalWord = canonicalize(word);
+      if (canonicalWord) { // Skip empty words
+        if (!wordToPlayers[canonicalWord]) {
+          wordToPlayers[canonicalWord] = [];
+        }
+        if (!wordToPlayers[canonicalWord].includes(playerId)) {
+          wordToPlayers[canonicalWord].push(playerId);
+        }
+      }
+    });
+  });
+
+  return wordToPlayers;
+}
+
+/**
+ * Scoring rule for a round type
+ *
+ * Each round type registers one rule that decides how words are scored, when
+ * the bonus is awarded and how the round is presented to players.
+ */
+export interface ScoringRule {
+  type: string; // value stored in rounds.type
+  topicPool: 'match' | 'unmatch'; // topic list the round draws its topic from
+  pointsForWord: (sharedBy: number) => number; // points per player for a word submitted by `sharedBy` players
+  earnsBonus: (sharedByCounts: number[]) => boolean; // whether a player whose words were shared this often gets the bonus
+  bonusPoints: number;
+  copy: {
+    title: string; // round banner heading
+    instructions: string; // hint shown under the topic
+    bonusDescription: string;
+    backgroundClass: string; // Tailwind classes for the round banner
+    textClass: string;
+  };
+}
+
+// Registry of scoring rules keyed by round type
+const scoringRules: { [type: string]: ScoringRule } = {};
+
+/**
+ * Register the scoring rule for a round type, replacing any existing rule for that type
+ *
+ * @param rule The scoring rule to register
+ */
+export function registerScoringRule(rule: ScoringRule): void {
+  scoringRules[rule.type] = rule;
+}
+
+/**
+ * Get the scoring rule for a round type
+ *
+ * @param type The round type, as stored in rounds.type
+ * @returns The registered rule, or undefined if the type is unknown
+ */
+export function getScoringRule(type: string): ScoringRule | undefined {
+  return Object.prototype.hasOwnProperty.call(scoringRules, type) ? scoringRules[type] : undefined;
+}
+
+/**
+ * Get all registered round types
+ */
+export function getRoundTypes(): string[] {
+  return Object.keys(scoringRules);
+}
+
+/**
+ * Calculate scores for a round using a scoring rule
+ *
+ * @param rule The scoring rule of the round type
  * @param playerWords Object mapping player IDs to their submitted words
+ * @param options Scoring options, such as the normalizers and topic aliases used to compare words
  * @returns Object with each player's score details
  */
-export function calculateMatchRoundScores(playerWords: PlayerWords): PlayerScores {
+export function calculateScoresWithRule(
+  rule: ScoringRule,
+  playerWords: PlayerWords,
+  options: ScoringOptions = {}
+): PlayerScores {
+  // Map every submission to its canonical form
+  const canonicalize = createCanonicalizer(options);
+
   // Initialize scores object
   const scores: PlayerScores = {};
-  Object.keys(playerWords).forEach(playerId => {
+  Object.entries(playerWords).forEach(([playerId, words]) => {
     scores[playerId] = {
       score: 0,
       matchedWords: [],
-      bonusAwarded: false
+      bonusAwarded: false,
+      submittedWords: toSubmittedWords(words, canonicalize),
+      ledger: []
     };
   });
 
   // Create a map of words to the players who submitted them
-  const wordToPlayers: { [word: string]: string[] } = {};
-  
-  // Populate the word-to-players map
-  Object.entries(playerWords).forEach(([playerId, words]) => {
-    words.forEach(word => {
-      const normalizedWord = word.toLowerCase().trim();
-      if (normalizedWord) { // Skip empty words
-        if (!wordToPlayers[normalizedWord]) {
-          wordToPlayers[normalizedWord] = [];
-        }
-        wordToPlayers[normalizedWord].push(playerId);
+  const wordToPlayers = buildWordToPlayers(playerWords, canonicalize);
+
+  // A word is valid when any spelling a player typed for it is in the topic's dictionary
+  const invalidWords = new Set<string>();
+  if (options.isValidWord) {
+    const isValidWord = options.isValidWord;
+    Object.keys(wordToPlayers).forEach(word => {
+      const spellings = Object.values(scores)
+        .flatMap(playerScore => playerScore.submittedWords)
+        .filter(submittedWord => submittedWord.canonical === word);
+      if (!spellings.some(submittedWord => isValidWord(submittedWord.typed))) {
+        invalidWords.add(word);
       }
     });
-  });
+  }
 
-  // Award points for matching words
+  // Award points for each word according to how many players submitted it
   Object.entries(wordToPlayers).forEach(([word, playerIds]) => {
-    if (playerIds.length > 1) { // Word appears in multiple players' lists
-      playerIds.forEach(playerId => {
-        // Each player gets +1 point for each of their words that matched with any other player
-        scores[playerId].score += 1;
+    const invalid = invalidWords.has(word);
+    const points = invalid ? 0 : rule.pointsForWord(playerIds.length);
+    playerIds.forEach(playerId => {
+      scores[playerId].score += points;
+      if (playerIds.length > 1 && !invalid) { // Track words shared with other players
         scores[playerId].matchedWords.push(word);
+      }
+
+      // Record the word with the first spelling the player typed for it
+      const typed = scores[playerId].submittedWords.find(submittedWord => submittedWord.canonical === word);
+      scores[playerId].ledger.push({
+        word: typed ? typed.typed : word,
+        normalizedWord: word,
+        playerIds,
+        points,
+        reason: invalid ? 'invalid' : getWordReason(points, playerIds.length)
       });
-    }
+    });
   });
 
-  // Check for perfect match bonus
+  // Check for the round's bonus
   Object.entries(playerWords).forEach(([playerId, words]) => {
-    // Filter out empty words
-    const validWords = words.filter(word => word.trim() !== '');
+    // Filter out words that are empty once canonicalized
+    const validWords = words.map(canonicalize).filter(word => word !== '');
     
-    if (validWords.length > 0) {
-      // Check if all of the player's words matched with at least one other player
-      const allWordsMatched = validWords.every(word => {
-        const normalizedWord = word.toLowerCase().trim();
-        return wordToPlayers[normalizedWord] && wordToPlayers[normalizedWord].length > 1;
-      });
+    // Words missing from the topic's dictionary rule out the bonus
+    if (validWords.length > 0 && !validWords.some(word => invalidWords.has(word))) {
+      const sharedByCounts = validWords.map(canonicalWord => wordToPlayers[canonicalWord].length);
       
-      // Award bonus point if all words matched
-      if (allWordsMatched) {
-        scores[playerId].score += 1;
+      if (rule.earnsBonus(sharedByCounts)) {
+        scores[playerId].score += rule.bonusPoints;
         scores[playerId].bonusAwarded = true;
+        scores[playerId].ledger.push({
+          word: null,
+          normalizedWord: null,
+          playerIds: [playerId],
+          points: rule.bonusPoints,
+          reason: 'bonus'
+        });
       }
     }
   });
@@ -89,6 +316,65 @@ export function calculateMatchRoundScores(playerWords: PlayerWords): PlayerScore
   return scores;
 }
 
+/**
+ * Match round rule
+ * 
+ * In a match round:
+ * - Each matching word is worth +1 point for each player with that word
+ * - If all of a player's words match with at least one other player, they get a +1 bonus
+ */
+registerScoringRule({
+  type: 'match',
+  topicPool: 'match',
+  pointsForWord: sharedBy => (sharedBy > 1 ? 1 : 0),
+  earnsBonus: sharedByCounts => sharedByCounts.every(count => count > 1),
+  bonusPoints: 1,
+  copy: {
+    title: 'Match Words Round',
+    instructions: 'Try to write the same words as other players!',
+    bonusDescription: 'Perfect match bonus',
+    backgroundClass: 'bg-blue-50',
+    textClass: 'text-blue-800'
+  }
+});
+
+/**
+ * Unmatch round rule
+ * 
+ * In an unmatch round:
+ * - Players get +1 point for each unique word (not shared with any other player)
+ * - If all of a player's words are unique, they get a +1 bonus
+ */
+registerScoringRule({
+  type: 'unmatch',
+  topicPool: 'unmatch',
+  pointsForWord: sharedBy => (sharedBy === 1 ? 1 : 0),
+  earnsBonus: sharedByCounts => sharedByCounts.every(count => count === 1),
+  bonusPoints: 1,
+  copy: {
+    title: 'Unmatch Words Round',
+    instructions: 'Try to write words that no one else will think of!',
+    bonusDescription: 'Perfect unmatch bonus',
+    backgroundClass: 'bg-purple-50',
+    textClass: 'text-purple-800'
+  }
+});
+
+/**
+ * Calculate scores for a match round
+ * 
+ * In a match round:
+ * - Each matching word is worth +1 point for each player with that word
+ * - If all of a player's words match with at least one other player, they get a +1 bonus
+ * 
+ * @param playerWords Object mapping player IDs to their submitted words
+ * @param options Scoring options, such as the normalizers and topic aliases used to compare words
+ * @returns Object with each player's score details
+ */
+export function calculateMatchRoundScores(playerWords: PlayerWords, options: ScoringOptions = {}): PlayerScores {
+  return calculateScoresWithRule(scoringRules.match, playerWords, options);
+}
+
 /**
  * Calculate scores for an unmatch round
  * 
@@ -97,107 +383,167 @@ export function calculateMatchRoundScores(playerWords: PlayerWords): PlayerScore
  * - If all of a player's words are unique, they get a +1 bonus
  * 
  * @param playerWords Object mapping player IDs to their submitted words
+ * @param options Scoring options, such as the normalizers and topic aliases used to compare words
  * @returns Object with each player's score details
  */
-export function calculateUnmatchRoundScores(playerWords: PlayerWords): PlayerScores {
-  // Initialize scores object
+export function calculateUnmatchRoundScores(playerWords: PlayerWords, options: ScoringOptions = {}): PlayerScores {
+  return calculateScoresWithRule(scoringRules.unmatch, playerWords, options);
+}
+
+/**
+ * Convert round_scores rows into the PlayerScores shape returned by the scorers
+ */
+function fromStoredRoundScores(rows: StoredRoundScore[]): PlayerScores {
   const scores: PlayerScores = {};
-  Object.keys(playerWords).forEach(playerId => {
-    scores[playerId] = {
-      score: 0,
-      matchedWords: [],
-      bonusAwarded: false
+  rows.forEach(row => {
+    scores[row.player_id] = {
+      score: row.score,
+      matchedWords: row.matched_words || [],
+      bonusAwarded: !!row.bonus_awarded,
+      submittedWords: row.submitted_words || [],
+      ledger: (row.ledger || []).map(fromStoredLedgerEntry)
     };
   });
+  return scores;
+}
 
-  // Create a map of words to the players who submitted them
-  const wordToPlayers: { [word: string]: string[] } = {};
-  
-  // Populate the word-to-players map
-  Object.entries(playerWords).forEach(([playerId, words]) => {
-    words.forEach(word => {
-      const normalizedWord = word.toLowerCase().trim();
-      if (normalizedWord) { // Skip empty words
-        if (!wordToPlayers[normalizedWord]) {
-          wordToPlayers[normalizedWord] = [];
-        }
-        wordToPlayers[normalizedWord].push(playerId);
-      }
-    });
-  });
+/**
+ * Convert a round_score_ledger row into a ledger entry
+ */
+export function fromStoredLedgerEntry(row: StoredLedgerEntry): LedgerEntry {
+  return {
+    word: row.word,
+    normalizedWord: row.normalized_word,
+    playerIds: row.player_ids || [],
+    points: row.points,
+    reason: row.reason
+  };
+}
 
-  // Track unique words for each player
-  const playerUniqueWords: { [playerId: string]: string[] } = {};
-  Object.keys(playerWords).forEach(playerId => {
-    playerUniqueWords[playerId] = [];
-  });
+/**
+ * Convert calculated scores into the JSON the round scoring database functions expect
+ */
+function toStoredScores(scores: PlayerScores) {
+  return Object.entries(scores).map(([playerId, scoreData]) => ({
+    player_id: playerId,
+    score: scoreData.score,
+    matched_words: scoreData.matchedWords,
+    bonus_awarded: scoreData.bonusAwarded,
+    submitted_words: scoreData.submittedWords,
+    ledger: scoreData.ledger.map(entry => ({
+      word: entry.word,
+      normalized_word: entry.normalizedWord,
+      player_ids: entry.playerIds,
+      points: entry.points,
+      reason: entry.reason
+    }))
+  }));
+}
 
-  // Award points for unique words
-  Object.entries(wordToPlayers).forEach(([word, playerIds]) => {
-    if (playerIds.length === 1) { // Word is unique to one player
-      const playerId = playerIds[0];
-      scores[playerId].score += 1;
-      playerUniqueWords[playerId].push(word);
-    } else {
-      // For duplicated words, add them to matchedWords for tracking
-      playerIds.forEach(playerId => {
-        scores[playerId].matchedWords.push(word);
-      });
-    }
+/**
+ * Finalize a round by saving its scores and ending it in one transaction
+ * 
+ * The finalize_round database function locks the round and only writes scores
+ * if the round has not ended yet. When another request already ended the round,
+ * nothing is written and the scores stored by that request are returned instead.
+ * 
+ * @param roundId The ID of the round
+ * @param scores The calculated scores for each player
+ * @returns Whether this call finalized the round, and the round's stored scores
+ */
+export async function finalizeRoundScores(roundId: string, scores: PlayerScores): Promise<RoundFinalization> {
+  const { data, error } = await supabase.rpc('finalize_round', {
+    p_round_id: roundId,
+    p_scores: toStoredScores(scores)
   });
 
-  // Check for perfect unmatch bonus
-  Object.entries(playerWords).forEach(([playerId, words]) => {
-    // Filter out empty words
-    const validWords = words.filter(word => word.trim() !== '');
-    
-    if (validWords.length > 0) {
-      // Check if all of the player's words are unique
-      const allWordsUnique = validWords.every(word => {
-        const normalizedWord = word.toLowerCase().trim();
-        return wordToPlayers[normalizedWord] && wordToPlayers[normalizedWord].length === 1;
-      });
-      
-      // Award bonus point if all words are unique
-      if (allWordsUnique) {
-        scores[playerId].score += 1;
-        scores[playerId].bonusAwarded = true;
-      }
-    }
+  if (error) {
+    console.error(`Error finalizing scores for round ${roundId}:`, error);
+    throw error;
+  }
+
+  return {
+    finalized: data.finalized,
+    scores: fromStoredRoundScores(data.scores)
+  };
+}
+
+/**
+ * Replace the stored scores of an ended round
+ * 
+ * The rescore_round database function swaps the round's scores and ledger and
+ * rebuilds the totals of the game's players from their round scores, all in one
+ * transaction.
+ * 
+ * @param roundId The ID of the round
+ * @param scores The recalculated scores for each player
+ * @returns The round's newly stored scores
+ */
+export async function rescoreRoundScores(roundId: string, scores: PlayerScores): Promise<PlayerScores> {
+  const { data, error } = await supabase.rpc('rescore_round', {
+    p_round_id: roundId,
+    p_scores: toStoredScores(scores)
   });
 
-  return scores;
+  if (error) {
+    console.error(`Error re-scoring round ${roundId}:`, error);
+    throw error;
+  }
+
+  return fromStoredRoundScores(data.scores);
 }
 
 /**
- * Save round scores to the database
+ * Get the scores stored for a round that has already been finalized
  * 
  * @param roundId The ID of the round
- * @param scores The calculated scores for each player
+ * @returns Object with each player's score details
  */
-export async function saveRoundScores(roundId: string, scores: PlayerScores): Promise<void> {
-  for (const [playerId, scoreData] of Object.entries(scores)) {
-    try {
-      // Save detailed score to round_scores table
-      await supabase
-        .from('round_scores')
-        .insert({
-          player_id: playerId,
-          round_id: roundId,
-          score: scoreData.score,
-          matched_words: scoreData.matchedWords,
-          bonus_awarded: scoreData.bonusAwarded
-        });
-      
-      // Update player's total score
-      await supabase.rpc('update_player_score', {
-        p_player_id: playerId,
-        p_score_to_add: scoreData.score
-      });
-    } catch (error) {
-      console.error(`Error saving score for player ${playerId}:`, error);
-      throw error;
-    }
+export async function getStoredRoundScores(roundId: string): Promise<PlayerScores> {
+  const [{ data, error }, { data: ledgerData, error: ledgerError }] = await Promise.all([
+    supabase
+      .from('round_scores')
+      .select('player_id, score, matched_words, bonus_awarded, submitted_words')
+      .eq('round_id', roundId),
+    supabase
+      .from('round_score_ledger')
+      .select(LEDGER_COLUMNS)
+      .eq('round_id', roundId)
+      .order('normalized_word')
+  ]);
+
+  if (error || ledgerError) {
+    console.error(`Error loading scores for round ${roundId}:`, error || ledgerError);
+    throw error || ledgerError;
+  }
+
+  const ledger = (ledgerData || []) as StoredLedgerEntry[];
+  return fromStoredRoundScores((data || []).map(row => ({
+    ...row,
+    ledger: ledger.filter(entry => entry.player_id === row.player_id)
+  })));
+}
+
+/**
+ * Sync the registered round types into the round_types table
+ * 
+ * rounds.type references round_types, so a newly registered rule only needs
+ * this call (made when a game starts) before rounds of its type can be created.
+ */
+export async function syncRoundTypes(): Promise<void> {
+  const { error } = await supabase
+    .from('round_types')
+    .upsert(
+      getRoundTypes().map(type => ({
+        type,
+        title: scoringRules[type].copy.title
+      })),
+      { onConflict: 'type' }
+    );
+
+  if (error) {
+    console.error('Error syncing round types:', error);
+    throw error;
   }
 }
 
@@ -0,0 +1,223 @@
+import { createClient } from '@supabase/supabase-js';
+import { publishGameEvent } from './gameEvents';
+import { createNormalizer, DEFAULT_NORMALIZERS } from './wordNormalizer';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Define types
+
+// Columns of the rounds table needed to check whether a round takes submissions
+export interface SubmittableRound {
+  start_time: string | null;
+  end_time: string | null;
+  deadline: string | null;
+  adjudication_deadline: string | null;
+}
+
+export interface SubmissionOptions {
+  wordsPerRound: number;
+  normalizers?: readonly string[];
+  allowEmpty?: boolean; // drafts may be cleared
+}
+
+// Longest word a player can submit, in characters
+export const MAX_WORD_LENGTH = 30;
+
+// Time after a round's deadline during which submissions are still accepted,
+// so that words sent by the auto-submit when the timer runs out are not lost
+export const SUBMISSION_GRACE_SECONDS = 3;
+
+// How many of a game's players have submitted and locked in their words in a round
+export interface SubmissionCounts {
+  submitted: number; // players with submitted words
+  lockedIn: number; // players who locked in
+  players: number;
+}
+
+/**
+ * Get the time a round's play ends
+ *
+ * @param round The round
+ * @param timePerRound The game's time per round in seconds, for rounds created
+ * before deadlines were stored
+ * @returns The deadline, or null when the round has not started
+ */
+export function getRoundDeadline(
+  round: Pick<SubmittableRound, 'start_time' | 'deadline'>,
+  timePerRound: number
+): Date | null {
+  if (!round.start_time) {
+    return null;
+  }
+
+  return round.deadline
+    ? new Date(round.deadline)
+    : new Date(new Date(round.start_time).getTime() + timePerRound * 1000);
+}
+
+/**
+ * Get the time after which a round no longer takes submissions
+ *
+ * @param round The round
+ * @param timePerRound The game's time per round in seconds, for rounds created
+ * before deadlines were stored
+ * @returns The cut-off time, or null when the round has not started
+ */
+export function getSubmissionCutoff(round: SubmittableRound, timePerRound: number): Date | null {
+  const deadline = getRoundDeadline(round, timePerRound);
+
+  return deadline ? new Date(deadline.getTime() + SUBMISSION_GRACE_SECONDS * 1000) : null;
+}
+
+/**
+ * Check whether a round takes submissions
+ *
+ * A round takes submissions once its topic is decided and it has started,
+ * until it ends, goes to adjudication or its deadline passes.
+ *
+ * @param round The round
+ * @param timePerRound The game's time per round in seconds
+ * @param now The current time
+ * @returns True when words can be submitted
+ */
+export function isRoundOpenForSubmissions(round: SubmittableRound, timePerRound: number, now = new Date()): boolean {
+  const cutoff = getSubmissionCutoff(round, timePerRound);
+
+  return !!cutoff
+    && !round.end_time
+    && !round.adjudication_deadline
+    && now.getTime() <= cutoff.getTime();
+}
+
+/**
+ * Validate the words a player submits for a round
+ *
+ * Words are trimmed and empty ones are dropped. Each word must be at most
+ * MAX_WORD_LENGTH characters and contain a letter or digit, and no two words
+ * may be the same after the game's normalizers. The words replace the player's
+ * earlier words in the round, so together they must not exceed the game's
+ * words per round.
+ *
+ * @param words Raw words from the request
+ * @param options The game's word limit and normalizers
+ * @returns The trimmed words, or null with the validation errors
+ */
+export function validateSubmission(
+  words: unknown,
+  options: SubmissionOptions
+): { words: string[] | null; errors: string[] } {
+  if (!Array.isArray(words) || !words.every(word => typeof word === 'string')) {
+    return { words: null, errors: ['Words must be an array of strings'] };
+  }
+
+  const trimmed = (words as string[]).map(word => word.trim()).filter(word => word !== '');
+  const normalize = createNormalizer(options.normalizers || DEFAULT_NORMALIZERS);
+  const errors: string[] = [];
+
+  if (trimmed.length === 0 && !options.allowEmpty) {
+    errors.push('At least one word is required');
+  }
+
+  if (trimmed.length > options.wordsPerRound) {
+    errors.push(`Only ${options.wordsPerRound} words are allowed per round`);
+  }
+
+  const seen = new Set<string>();
+
+  trimmed.forEach(word => {
+    if (word.length > MAX_WORD_LENGTH) {
+      errors.push(`"${word}" is longer than ${MAX_WORD_LENGTH} characters`);
+      return;
+    }
+
+    const normalized = normalize(word);
+    if (!normalized) {
+      errors.push(`"${word}" must contain a letter or digit`);
+      return;
+    }
+
+    if (seen.has(normalized)) {
+      errors.push(`"${word}" is the same as another of your words`);
+      return;
+    }
+
+    seen.add(normalized);
+  });
+
+  return errors.length > 0
+    ? { words: null, errors }
+    : { words: trimmed, errors: [] };
+}
+
+/**
+ * Finalize the drafts of a round's players who never submitted
+ *
+ * Drafts of players who did submit are dropped, so that only final submissions
+ * are scored. Safe to call more than once.
+ *
+ * @param roundId The round
+ * @returns Number of drafts that became final
+ */
+export async function finalizeRoundDrafts(roundId: string): Promise<number> {
+  const { data, error } = await supabase.rpc('finalize_round_drafts', {
+    p_round_id: roundId
+  });
+
+  if (error) {
+    console.error(`Error finalizing drafts for round ${roundId}:`, error);
+    throw error;
+  }
+
+  return data || 0;
+}
+
+/**
+ * Count how many of a game's players have submitted and locked in their words
+ *
+ * @param gameId The game
+ * @param roundId The round being played
+ */
+export async function countSubmissions(gameId: string, roundId: string): Promise<SubmissionCounts> {
+  const [{ count: playerCount, error: countError }, { data: submissions, error: submissionsError }] = await Promise.all([
+    supabase.from('players').select('*', { count: 'exact', head: true }).eq('game_id', gameId),
+    supabase.from('submissions').select('player_id, locked_in').eq('round_id', roundId).eq('is_final', true)
+  ]);
+
+  if (countError || submissionsError) {
+    throw countError || submissionsError;
+  }
+
+  const submitted = new Set((submissions || []).map(submission => submission.player_id));
+  const lockedIn = new Set((submissions || []).filter(submission => submission.locked_in).map(submission => submission.player_id));
+
+  return { submitted: submitted.size, lockedIn: lockedIn.size, players: playerCount || 0 };
+}
+
+/**
+ * Check whether every player of a game has locked in their words for a round
+ */
+export function isEveryoneLockedIn(counts: SubmissionCounts): boolean {
+  return counts.players > 0 && counts.lockedIn >= counts.players;
+}
+
+/**
+ * Publish how many of a game's players have submitted and locked in their words
+ *
+ * @param gameId The game
+ * @param roundId The round being played
+ */
+export async function publishSubmissionCounts(gameId: string, roundId: string): Promise<void> {
+  let counts: SubmissionCounts;
+
+  try {
+    counts = await countSubmissions(gameId, roundId);
+  } catch (error) {
+    console.error('Error counting submissions, players are not notified:', error);
+    return;
+  }
+
+  await publishGameEvent(gameId, 'submission_count_changed', { roundId, ...counts });
+}
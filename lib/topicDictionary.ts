@@ -0,0 +1,98 @@
+import { createNormalizer, DEFAULT_NORMALIZERS } from './wordNormalizer';
+
+// Define types
+
+// One valid answer, or a group of spellings of the same answer
+export type DictionaryEntry = string | string[];
+
+// Valid answers for topics with a finite list of answers, keyed by topic id
+export interface TopicDictionaries {
+  [topicId: string]: DictionaryEntry[];
+}
+
+/**
+ * Check whether a value is a non-empty string
+ */
+function isWord(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Validate raw dictionary data
+ *
+ * The data must be an object mapping topic ids to non-empty lists, where each
+ * entry is a word or a non-empty list of spellings of the same word.
+ *
+ * @param data Raw dictionary data, such as data/dictionaries.json
+ * @returns A list of validation errors, empty when the data is valid
+ */
+export function validateDictionaries(data: unknown): string[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['Dictionary data must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  Object.entries(data as Record<string, unknown>).forEach(([topicId, entries]) => {
+    if (!Array.isArray(entries) || entries.length === 0) {
+      errors.push(`The dictionary for "${topicId}" must be a non-empty array`);
+      return;
+    }
+
+    entries.forEach((entry, index) => {
+      const valid = isWord(entry) || (Array.isArray(entry) && entry.length > 0 && entry.every(isWord));
+      if (!valid) {
+        errors.push(`Entry ${index + 1} of the dictionary for "${topicId}" must be a word or a list of spellings`);
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Validate raw dictionary data and return it as topic dictionaries
+ *
+ * @param data Raw dictionary data, usually parsed from data/dictionaries.json
+ * @returns The validated dictionaries
+ * @throws Error listing every problem when the data is invalid
+ */
+export function loadDictionaries(data: unknown): TopicDictionaries {
+  const errors = validateDictionaries(data);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid dictionary data: ${errors.join('; ')}`);
+  }
+
+  return data as TopicDictionaries;
+}
+
+/**
+ * Build a function that checks whether a word is in a topic's dictionary
+ *
+ * Words and dictionary entries are compared after normalization, so "Brazil's"
+ * or "brazil" match "Brazil" with the default normalizers. Every spelling in a
+ * topic alias group counts when one of the group's spellings is in the dictionary.
+ *
+ * @param entries The topic's dictionary entries
+ * @param normalizers Normalizer names from the game's settings
+ * @param aliases The topic's alias groups
+ * @returns Function returning true for words in the dictionary
+ */
+export function createDictionaryValidator(
+  entries: readonly DictionaryEntry[],
+  normalizers: readonly string[] = DEFAULT_NORMALIZERS,
+  aliases: readonly (readonly string[])[] = []
+): (word: string) => boolean {
+  const normalize = createNormalizer(normalizers);
+  const validWords = new Set(entries.flat().map(normalize));
+
+  aliases.forEach(group => {
+    const normalizedGroup = group.map(normalize);
+    if (normalizedGroup.some(word => validWords.has(word))) {
+      normalizedGroup.forEach(word => validWords.add(word));
+    }
+  });
+
+  return (word: string) => validWords.has(normalize(word));
+}
@@ -0,0 +1,121 @@
+import { Topic, TopicDifficulty, TOPIC_DIFFICULTIES } from './topicRegistry';
+
+// Define types
+export interface TopicFilter {
+  includeTags: string[]; // when not empty, topics need at least one of these tags
+  excludeTags: string[]; // topics with any of these tags are never picked
+  minDifficulty: TopicDifficulty;
+  maxDifficulty: TopicDifficulty;
+}
+
+// Filter that lets every topic through
+export const DEFAULT_TOPIC_FILTER: TopicFilter = {
+  includeTags: [],
+  excludeTags: [],
+  minDifficulty: 'easy',
+  maxDifficulty: 'hard'
+};
+
+/**
+ * Check whether a value is a list of tag names
+ */
+function isTagList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(tag => typeof tag === 'string' && tag.trim() !== '');
+}
+
+/**
+ * Validate a topic filter, usually from a request body
+ *
+ * @param input The requested filter, missing fields keep their default
+ * @returns The complete filter, or a list of validation errors
+ */
+export function validateTopicFilter(input: unknown): { filter: TopicFilter; errors: string[] } {
+  const errors: string[] = [];
+  const filter: TopicFilter = { ...DEFAULT_TOPIC_FILTER };
+
+  if (!input || typeof input !== 'object') {
+    return { filter, errors: ['topicFilter must be an object'] };
+  }
+
+  const values = input as Record<string, unknown>;
+
+  (['includeTags', 'excludeTags'] as const).forEach(key => {
+    if (values[key] === undefined) return;
+
+    if (isTagList(values[key])) {
+      filter[key] = Array.from(new Set((values[key] as string[]).map(tag => tag.trim())));
+    } else {
+      errors.push(`topicFilter.${key} must be a list of tags`);
+    }
+  });
+
+  (['minDifficulty', 'maxDifficulty'] as const).forEach(key => {
+    if (values[key] === undefined) return;
+
+    if (TOPIC_DIFFICULTIES.includes(values[key] as TopicDifficulty)) {
+      filter[key] = values[key] as TopicDifficulty;
+    } else {
+      errors.push(`topicFilter.${key} must be one of: ${TOPIC_DIFFICULTIES.join(', ')}`);
+    }
+  });
+
+  if (TOPIC_DIFFICULTIES.indexOf(filter.minDifficulty) > TOPIC_DIFFICULTIES.indexOf(filter.maxDifficulty)) {
+    errors.push('topicFilter.minDifficulty cannot be harder than topicFilter.maxDifficulty');
+  }
+
+  const conflictingTags = filter.includeTags.filter(tag => filter.excludeTags.includes(tag));
+  if (conflictingTags.length > 0) {
+    errors.push(`Tags cannot be both included and excluded: ${conflictingTags.join(', ')}`);
+  }
+
+  return { filter, errors };
+}
+
+/**
+ * Check whether a topic passes a topic filter
+ *
+ * Topics without a difficulty count as 'medium'.
+ *
+ * @param topic The topic to check
+ * @param filter The game's topic filter
+ * @returns True when the topic can be picked
+ */
+export function matchesTopicFilter(topic: Topic, filter: TopicFilter): boolean {
+  const tags = topic.tags || [];
+  const difficulty = TOPIC_DIFFICULTIES.indexOf(topic.difficulty || 'medium');
+
+  if (filter.includeTags.length > 0 && !filter.includeTags.some(tag => tags.includes(tag))) {
+    return false;
+  }
+
+  if (filter.excludeTags.some(tag => tags.includes(tag))) {
+    return false;
+  }
+
+  return difficulty >= TOPIC_DIFFICULTIES.indexOf(filter.minDifficulty)
+    && difficulty <= TOPIC_DIFFICULTIES.indexOf(filter.maxDifficulty);
+}
+
+/**
+ * Describe a topic filter for error messages
+ *
+ * @param filter The game's topic filter
+ * @returns A short summary such as "tags geography, not kids, easy to medium"
+ */
+export function describeTopicFilter(filter: TopicFilter): string {
+  const parts: string[] = [];
+
+  if (filter.includeTags.length > 0) {
+    parts.push(`tags ${filter.includeTags.join(' or ')}`);
+  }
+
+  if (filter.excludeTags.length > 0) {
+    parts.push(`not ${filter.excludeTags.join(' or ')}`);
+  }
+
+  parts.push(filter.minDifficulty === filter.maxDifficulty
+    ? filter.minDifficulty
+    : `${filter.minDifficulty} to ${filter.maxDifficulty}`);
+
+  return parts.join(', ');
+}
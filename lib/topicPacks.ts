@@ -0,0 +1,168 @@
+import { createClient } from '@supabase/supabase-js';
+import { TOPIC_POOLS, TopicsCollection, validateTopics } from './topicRegistry';
+import { getStoredTopics } from './topicStore';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Version of the topic pack format that uploads must declare
+export const TOPIC_PACK_VERSION = 1;
+
+// Pack IDs are stored on games, so keep them short and URL friendly
+const PACK_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/;
+
+// Define types
+export interface TopicPack {
+  version: number; // format version, see TOPIC_PACK_VERSION
+  id: string;
+  name: string;
+  description?: string;
+  topics: TopicsCollection; // same shape as data/topics.json
+}
+
+/**
+ * Validate an uploaded topic pack
+ *
+ * The pack must use the current format version and its topics must pass the
+ * topic registry's checks. Topic IDs may not reuse built-in topic IDs, because
+ * rounds refer to topics by ID alone.
+ *
+ * @param input The uploaded pack, usually from a request body
+ * @param builtInTopics The topics stored in the topics table, including archived ones
+ * @returns The validated pack, or a list of validation errors
+ */
+export function validateTopicPack(
+  input: unknown,
+  builtInTopics: TopicsCollection
+): { pack: TopicPack | null; errors: string[] } {
+  if (!input || typeof input !== 'object') {
+    return { pack: null, errors: ['Topic pack must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const values = input as Record<string, unknown>;
+
+  if (values.version !== TOPIC_PACK_VERSION) {
+    errors.push(`version must be ${TOPIC_PACK_VERSION}`);
+  }
+
+  if (typeof values.id !== 'string' || !PACK_ID_PATTERN.test(values.id)) {
+    errors.push('id must be 1-50 lowercase letters, numbers, dashes or underscores');
+  }
+
+  if (typeof values.name !== 'string' || values.name.trim() === '') {
+    errors.push('name is required');
+  }
+
+  if (values.description !== undefined && typeof values.description !== 'string') {
+    errors.push('description must be text');
+  }
+
+  const topicErrors = validateTopics(values.topics);
+  errors.push(...topicErrors);
+
+  if (topicErrors.length === 0) {
+    const packTopics = values.topics as TopicsCollection;
+    const topicCount = TOPIC_POOLS.reduce((count, pool) => count + packTopics[pool].length, 0);
+
+    if (topicCount === 0) {
+      errors.push('Topic pack must contain at least one topic');
+    }
+
+    TOPIC_POOLS.forEach(pool => {
+      packTopics[pool].forEach(topic => {
+        if (TOPIC_POOLS.some(builtInPool => builtInTopics[builtInPool].some(builtIn => builtIn.id === topic.id))) {
+          errors.push(`Topic "${topic.id}" has the same id as a built-in topic`);
+        }
+      });
+    });
+  }
+
+  if (errors.length > 0) {
+    return { pack: null, errors };
+  }
+
+  return {
+    pack: {
+      version: TOPIC_PACK_VERSION,
+      id: values.id as string,
+      name: (values.name as string).trim(),
+      description: values.description as string | undefined,
+      topics: values.topics as TopicsCollection
+    },
+    errors
+  };
+}
+
+/**
+ * Combine the topics of the packs attached to a game
+ *
+ * A pool that none of the packs fill falls back to the built-in topics, so a
+ * pack with only match topics still leaves unmatch rounds playable.
+ *
+ * @param packs The game's topic packs
+ * @param builtInTopics The active topics from the topics table
+ * @returns The topics rounds of the game draw from
+ */
+export function mergeTopicPacks(packs: TopicPack[], builtInTopics: TopicsCollection): TopicsCollection {
+  if (packs.length === 0) {
+    return builtInTopics;
+  }
+
+  const merged: TopicsCollection = { match: [], unmatch: [] };
+
+  TOPIC_POOLS.forEach(pool => {
+    merged[pool] = packs.reduce((poolTopics, pack) => poolTopics.concat(pack.topics[pool]), merged[pool]);
+
+    if (merged[pool].length === 0) {
+      merged[pool] = builtInTopics[pool];
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * Load topic packs from the database
+ *
+ * @param packIds The pack IDs to load
+ * @returns The packs that exist, in the order the IDs were given
+ */
+export async function getTopicPacks(packIds: string[]): Promise<TopicPack[]> {
+  if (packIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('topic_packs')
+    .select('id, name, description, version, topics')
+    .in('id', packIds);
+
+  if (error) {
+    console.error('Error loading topic packs:', error);
+    throw error;
+  }
+
+  const packs = (data || []) as TopicPack[];
+
+  return packIds
+    .map(packId => packs.find(pack => pack.id === packId))
+    .filter((pack): pack is TopicPack => !!pack);
+}
+
+/**
+ * Get the topics a game's rounds draw from
+ *
+ * @param topicPackIds The game's topic_pack_ids column
+ * @returns The merged topics of the game's packs, or the built-in topics when it has none
+ */
+export async function getGameTopics(topicPackIds: string[] | null | undefined): Promise<TopicsCollection> {
+  const [packs, builtInTopics] = await Promise.all([
+    getTopicPacks(topicPackIds || []),
+    getStoredTopics()
+  ]);
+
+  return mergeTopicPacks(packs, builtInTopics);
+}
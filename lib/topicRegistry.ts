@@ -0,0 +1,3 @@
+// The topic registry is deployed with the edge functions, see
+// supabase/functions/_shared/topicRegistry.ts
+export * from '../supabase/functions/_shared/topicRegistry';
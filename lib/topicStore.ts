@@ -0,0 +1,94 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  fromTopicRows,
+  TopicRow,
+  TopicsCollection,
+  TOPIC_POOLS,
+  TopicPool,
+  validateTopics
+} from './topicRegistry';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Columns of the topics table returned by the API
+export const TOPIC_COLUMNS = 'id, name, description, pool, tags, aliases, difficulty, active';
+
+/**
+ * Load topics from the topics table
+ *
+ * @param includeArchived Also return archived topics, for the admin routes
+ * @returns The stored topics grouped by pool, in name order
+ */
+export async function getStoredTopics(includeArchived = false): Promise<TopicsCollection> {
+  let query = supabase
+    .from('topics')
+    .select(TOPIC_COLUMNS)
+    .order('name');
+
+  if (!includeArchived) {
+    query = query.eq('active', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error loading topics:', error);
+    throw error;
+  }
+
+  return fromTopicRows((data || []) as TopicRow[]);
+}
+
+/**
+ * Validate a topic created or updated through the admin routes
+ *
+ * The input is merged over the current row when updating, so only the
+ * changed fields need to be sent. The id cannot change once a topic exists.
+ *
+ * @param input The requested topic, usually from a request body
+ * @param current The stored row when updating an existing topic
+ * @returns The topic row to save, or a list of validation errors
+ */
+export function validateTopicInput(
+  input: unknown,
+  current?: TopicRow
+): { topic: TopicRow | null; errors: string[] } {
+  if (!input || typeof input !== 'object') {
+    return { topic: null, errors: ['Topic must be an object'] };
+  }
+
+  const values = input as Partial<TopicRow>;
+  const errors: string[] = [];
+
+  if (current && values.id !== undefined && values.id !== current.id) {
+    errors.push('id cannot be changed');
+  }
+
+  const topic: TopicRow = {
+    id: current ? current.id : values.id as string,
+    name: values.name ?? current?.name as string,
+    description: values.description ?? current?.description as string,
+    pool: values.pool ?? current?.pool as TopicPool,
+    tags: values.tags ?? current?.tags ?? [],
+    aliases: values.aliases ?? current?.aliases ?? [],
+    difficulty: values.difficulty ?? current?.difficulty ?? 'medium',
+    active: values.active ?? current?.active ?? true
+  };
+
+  if (!TOPIC_POOLS.includes(topic.pool)) {
+    errors.push(`pool must be one of: ${TOPIC_POOLS.join(', ')}`);
+  }
+
+  if (typeof topic.active !== 'boolean') {
+    errors.push('active must be true or false');
+  }
+
+  // Reuse the registry checks on a collection holding just this topic
+  const { id, name, description, tags, aliases, difficulty } = topic;
+  errors.push(...validateTopics({ match: [{ id, name, description, tags, aliases, difficulty }], unmatch: [] }));
+
+  return errors.length > 0 ? { topic: null, errors } : { topic, errors };
+}
@@ -0,0 +1,197 @@
+import { createClient } from '@supabase/supabase-js';
+import { publishGameEvent } from './gameEvents';
+import { getGameSettings } from './gameSettings';
+import { getGameStatus } from './gameState';
+import { Topic } from './topicRegistry';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Number of topics players choose between before a round
+export const TOPIC_VOTE_CANDIDATES = 3;
+
+// How long players can vote before the round starts, in seconds
+export const TOPIC_VOTE_SECONDS = 15;
+
+// Define types
+export interface TopicVoteClose {
+  closed: boolean; // false when the vote had already closed
+  topicId: string | null; // the round's topic
+  error?: string; // why the vote cannot close yet
+}
+
+export interface TopicCandidate {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export interface TopicVote {
+  player_id: string;
+  topic_id: string;
+}
+
+// Columns of the rounds table that hold a round's topic, start and deadline
+export interface RoundTopicFields {
+  topic: string | null;
+  topic_id: string | null;
+  topic_candidates: TopicCandidate[] | null;
+  vote_deadline: string | null;
+  start_time: string | null;
+  deadline: string | null;
+}
+
+/**
+ * Get the topic columns for a new round
+ *
+ * A round with one candidate starts straight away. With several candidates the
+ * round opens a topic vote instead, and closeTopicVote starts it later.
+ *
+ * @param candidates The topics the round could use, see pickTopicCandidates
+ * @param timePerRound The game's time per round in seconds
+ * @returns Values to insert into the rounds table
+ */
+export function getRoundTopicFields(candidates: Topic[], timePerRound: number): RoundTopicFields {
+  const now = new Date();
+
+  if (candidates.length === 1) {
+    return {
+      topic: candidates[0].name,
+      topic_id: candidates[0].id,
+      topic_candidates: null,
+      vote_deadline: null,
+      start_time: now.toISOString(),
+      deadline: new Date(now.getTime() + timePerRound * 1000).toISOString()
+    };
+  }
+
+  return {
+    topic: null,
+    topic_id: null,
+    topic_candidates: candidates.map(({ id, name, description }) => ({ id, name, description })),
+    vote_deadline: new Date(now.getTime() + TOPIC_VOTE_SECONDS * 1000).toISOString(),
+    start_time: null,
+    deadline: null
+  };
+}
+
+/**
+ * Count the votes for each candidate topic
+ *
+ * @param candidates The round's candidate topics
+ * @param votes The votes cast for the round
+ * @returns Number of votes for each candidate's topic ID, votes for other topics are ignored
+ */
+export function tallyTopicVotes(candidates: TopicCandidate[], votes: TopicVote[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  candidates.forEach(candidate => {
+    counts[candidate.id] = votes.filter(vote => vote.topic_id === candidate.id).length;
+  });
+
+  return counts;
+}
+
+/**
+ * Pick the winning topic of a vote
+ *
+ * @param candidates The round's candidate topics
+ * @param votes The votes cast for the round
+ * @returns The candidate with the most votes, ties (also when nobody voted) are broken randomly
+ */
+export function pickVoteWinner(candidates: TopicCandidate[], votes: TopicVote[]): TopicCandidate {
+  const counts = tallyTopicVotes(candidates, votes);
+  const mostVotes = Math.max(...candidates.map(candidate => counts[candidate.id]));
+  const leaders = candidates.filter(candidate => counts[candidate.id] === mostVotes);
+
+  return leaders[Math.floor(Math.random() * leaders.length)];
+}
+
+/**
+ * Close a round's topic vote and start the round with the winning topic
+ *
+ * Safe to call more than once: only the first call sets the topic, later calls
+ * leave the round alone.
+ *
+ * @param roundId The ID of the round
+ * @returns Whether this call closed the vote, and the round's topic ID
+ */
+export async function closeTopicVote(roundId: string): Promise<TopicVoteClose> {
+  const { data: round, error: roundError } = await supabase
+    .from('rounds')
+    .select('game_id, topic_id, topic_candidates')
+    .eq('id', roundId)
+    .single();
+
+  if (roundError || !round) {
+    throw roundError || new Error('Round not found');
+  }
+
+  const candidates: TopicCandidate[] = round.topic_candidates || [];
+
+  if (round.topic_id || candidates.length === 0) {
+    return { closed: false, topicId: round.topic_id };
+  }
+
+  // Votes stay open while the game is paused, their deadline moves when it resumes
+  const gameStatus = await getGameStatus(round.game_id);
+  if (gameStatus !== 'round-active') {
+    return { closed: false, topicId: null, error: `Cannot close the topic vote while the game is ${gameStatus}` };
+  }
+
+  const { data: votes, error: votesError } = await supabase
+    .from('topic_votes')
+    .select('player_id, topic_id')
+    .eq('round_id', roundId);
+
+  if (votesError) {
+    throw votesError;
+  }
+
+  const winner = pickVoteWinner(candidates, votes || []);
+
+  // The round's time starts counting once its topic is known
+  const { data: game, error: gameError } = await supabase
+    .from('games')
+    .select('time_per_round')
+    .eq('id', round.game_id)
+    .single();
+
+  if (gameError) {
+    console.error('Error loading game settings, using defaults:', gameError);
+  }
+
+  const { timePerRound } = getGameSettings(game || {});
+  const startTime = new Date();
+  const deadline = new Date(startTime.getTime() + timePerRound * 1000);
+
+  // Only the request that still finds the round without a topic starts it
+  const { data: updatedRounds, error: updateError } = await supabase
+    .from('rounds')
+    .update({
+      topic: winner.name,
+      topic_id: winner.id,
+      start_time: startTime.toISOString(),
+      deadline: deadline.toISOString()
+    })
+    .eq('id', roundId)
+    .is('topic_id', null)
+    .select();
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  if (!updatedRounds || updatedRounds.length === 0) {
+    console.log('Topic vote was closed by another request for round', roundId);
+    return { closed: false, topicId: null };
+  }
+
+  // The round's time starts now
+  await publishGameEvent(round.game_id, 'round_started', { round: updatedRounds[0] });
+
+  console.log('Topic vote closed for round', roundId, 'with topic', winner.id);
+  return { closed: true, topicId: winner.id };
+}
@@ -1,22 +1,10 @@
-import fs from 'fs';
-import path from 'path';
-
-// Path to the topics.json file
-const topicsFilePath = path.join(process.cwd(), 'data', 'topics.json');
+import { topics } from '../data/topics';
 
 /**
- * Load topics from the JSON file
- * This is used server-side only
+ * Load the seed topics from data/topics.json (games read topics from the topics table)
  */
 export function loadTopicsFromFile() {
-  try {
-    const fileContents = fs.readFileSync(topicsFilePath, 'utf8');
-    return JSON.parse(fileContents);
-  } catch (error) {
-    console.error('Error loading topics file:', error);
-    // Return default empty structure if file can't be loaded
-    return { match: [], unmatch: [] };
-  }
+  return topics;
 }
 
 /**
@@ -0,0 +1,151 @@
+// Define types
+export type NormalizerName =
+  | 'diacritics'
+  | 'punctuation'
+  | 'articles'
+  | 'plurals'
+  | 'stem';
+
+type Normalizer = (word: string) => string;
+
+// Leading articles that are dropped by the 'articles' normalizer
+const LEADING_ARTICLES = ['the', 'a', 'an'];
+
+// ASCII and common typographic punctuation, replaced by spaces
+const PUNCTUATION = /[!-/:-@[-`{-~¡¿–—“”«»…]/g;
+
+// Words ending in "s" that should not be singularized
+const PLURAL_EXCEPTIONS = new Set([
+  'bus', 'gas', 'glass', 'grass', 'news', 'series', 'species', 'chess', 'dress',
+  'virus', 'cactus', 'octopus', 'hippopotamus', 'bonus', 'canvas', 'lens', 'christmas'
+]);
+
+// Singulars ending in "ie" or "oe", whose plurals only add an "s"
+const E_SINGULARS = new Set([
+  'movie', 'pie', 'cookie', 'tie', 'lie', 'brownie', 'zombie', 'smoothie', 'selfie',
+  'rookie', 'goalie', 'genie', 'pixie', 'calorie', 'prairie', 'hoodie',
+  'shoe', 'toe', 'canoe', 'oboe', 'hoe', 'foe', 'floe', 'horseshoe', 'tiptoe'
+]);
+
+/**
+ * Apply a function to each space-separated token of a word
+ */
+function mapTokens(word: string, fn: (token: string) => string): string {
+  return word.split(' ').map(fn).join(' ');
+}
+
+/**
+ * Reduce a plural token to its singular form using common English rules
+ */
+function singularize(token: string): string {
+  if (token.length <= 3 || PLURAL_EXCEPTIONS.has(token)) return token;
+
+  if (/[io]es$/.test(token) && E_SINGULARS.has(token.slice(0, -1))) {
+    return token.slice(0, -1);                                             // movies -> movie, shoes -> shoe
+  }
+  if (token.endsWith('ies')) return token.slice(0, -3) + 'y';              // berries -> berry
+  if (/(ss|sh|ch|x|z)es$/.test(token)) return token.slice(0, -2);          // boxes -> box
+  if (token.endsWith('oes')) return token.slice(0, -2);                    // potatoes -> potato
+  if (/(ss|us|is)$/.test(token)) return token;                             // grass, cactus, tennis
+  if (token.endsWith('s')) return token.slice(0, -1);                      // cats -> cat
+
+  return token;
+}
+
+/**
+ * Strip common English suffixes so that related word forms share a stem
+ *
+ * A consonant doubled after a vowel is undone ("running" -> "run", "stopped" ->
+ * "stop"), but not the ll, ss, ff and zz that base words end in ("telling" ->
+ * "tell", "passed" -> "pass").
+ */
+function stem(token: string): string {
+  if (token.length <= 5) return token;
+
+  let stemmed = token;
+  if (token.endsWith('ing')) stemmed = token.slice(0, -3);                 // jumping -> jump
+  else if (token.endsWith('ed')) stemmed = token.slice(0, -2);             // jumped -> jump
+  else if (token.endsWith('ly')) stemmed = token.slice(0, -2);             // quickly -> quick
+
+  // Undo consonant doubling ("running" -> "runn" -> "run")
+  if (stemmed !== token && /[aeiou]([^aeiouflsz])\1$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  return stemmed;
+}
+
+// Registry of available normalizers
+const normalizers: Record<NormalizerName, Normalizer> = {
+  // Fold accented characters to their base letter ("café" -> "cafe")
+  diacritics: word => word.normalize('NFD').replace(/[\u0300-\u036f]/g, ''),
+
+  // Drop apostrophes, turn other punctuation into spaces and collapse whitespace ("New-York" -> "new york")
+  punctuation: word => word
+    .replace(/['’]/g, '')
+    .replace(PUNCTUATION, ' ')
+    .replace(/\s+/g, ' ')
+    .trim(),
+
+  // Remove a leading "the", "a" or "an" ("The Beatles" -> "beatles")
+  articles: word => {
+    const tokens = word.split(' ');
+    if (tokens.length > 1 && LEADING_ARTICLES.includes(tokens[0])) {
+      return tokens.slice(1).join(' ');
+    }
+    return word;
+  },
+
+  // Singularize each token ("cats" -> "cat")
+  plurals: word => mapTokens(word, singularize),
+
+  // Strip common suffixes from each token ("jumped" -> "jump")
+  stem: word => mapTokens(word, stem)
+};
+
+/**
+ * Normalizers applied when a game does not specify its own list.
+ * 'stem' is left out by default because it can merge unrelated words.
+ */
+export const DEFAULT_NORMALIZERS: NormalizerName[] = ['diacritics', 'punctuation', 'articles', 'plurals'];
+
+/**
+ * All normalizer names that can be stored in a game's settings
+ */
+export const AVAILABLE_NORMALIZERS = Object.keys(normalizers) as NormalizerName[];
+
+/**
+ * Check whether a value is a known normalizer name
+ */
+export function isNormalizerName(value: unknown): value is NormalizerName {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(normalizers, value);
+}
+
+/**
+ * Build a word normalization function from a list of normalizer names
+ *
+ * Words are always lowercased and trimmed first, then each normalizer runs in
+ * the order given. Unknown names are ignored so that old game settings keep working.
+ *
+ * @param names Normalizers to apply, defaults to DEFAULT_NORMALIZERS
+ * @returns Function that maps a raw word to its normalized form
+ */
+export function createNormalizer(names: readonly string[] = DEFAULT_NORMALIZERS): (word: string) => string {
+  const chain = names.filter(isNormalizerName).map(name => normalizers[name]);
+
+  return (word: string) => chain.reduce(
+    (current, normalize) => normalize(current),
+    word.toLowerCase().trim()
+  );
+}
+
+/**
+ * Normalize a single word with the given normalizers
+ *
+ * @param word The raw word as submitted by a player
+ * @param names Normalizers to apply, defaults to DEFAULT_NORMALIZERS
+ * @returns The normalized word
+ */
+export function normalizeWord(word: string, names: readonly string[] = DEFAULT_NORMALIZERS): string {
+  return createNormalizer(names)(word);
+}
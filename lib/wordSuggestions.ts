@@ -0,0 +1,176 @@
+import { DictionaryEntry } from './topicDictionary';
+import { createNormalizer, DEFAULT_NORMALIZERS } from './wordNormalizer';
+
+// Define types
+
+// A spelling that can be suggested, with how often it was played before
+export interface SuggestionCandidate {
+  word: string;          // Spelling shown to the player
+  normalized: string;    // Normalized form used for ranking and de-duplication
+  count: number;         // Number of past submissions of the word
+  inDictionary: boolean; // Whether the word is in the topic's dictionary
+}
+
+// Maximum number of suggestions returned for a query
+export const MAX_SUGGESTIONS = 5;
+
+// Queries shorter than this (after normalization) get no suggestions
+export const MIN_SUGGESTION_QUERY_LENGTH = 2;
+
+// Number of recent ended rounds of a topic whose submissions are suggested
+export const SUGGESTION_ROUNDS_LIMIT = 200;
+
+/**
+ * Get the number of typos allowed for a query of the given length
+ *
+ * Short queries must match exactly, since almost any word is one edit away
+ * from a two or three letter prefix.
+ */
+function getMaxDistance(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+}
+
+/**
+ * Calculate the edit distance between two words
+ *
+ * Insertions, deletions, substitutions and swaps of two adjacent letters each
+ * count as one edit ("girafe" -> "giraffe" and "tigre" -> "tiger" are both 1).
+ * With `prefix` set, `b` may continue past the end of `a`, so the result is the
+ * distance between `a` and the closest prefix of `b`.
+ *
+ * @param a The typed word
+ * @param b The word to compare against
+ * @param prefix Whether to compare against prefixes of `b`
+ * @returns The number of edits
+ */
+export function editDistance(a: string, b: string, prefix = false): number {
+  const rows: number[][] = [];
+
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+    for (let j = 1; j <= b.length; j++) {
+      if (i === 0) {
+        rows[i].push(j);
+        continue;
+      }
+
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        rows[i - 1][j] + 1,        // deletion
+        rows[i][j - 1] + 1,        // insertion
+        rows[i - 1][j - 1] + cost  // substitution
+      );
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, rows[i - 2][j - 2] + 1); // transposition
+      }
+
+      rows[i].push(distance);
+    }
+  }
+
+  const lastRow = rows[a.length];
+  return prefix ? Math.min(...lastRow) : lastRow[b.length];
+}
+
+/**
+ * Collect the spellings that can be suggested for a topic
+ *
+ * Every spelling in the dictionary is a candidate. Past submissions are grouped
+ * by normalized form and suggested with their most common spelling, or counted
+ * towards the dictionary spelling they normalize to.
+ *
+ * @param dictionary The topic's dictionary entries, if it has any
+ * @param pastWords Words submitted in earlier rounds of the topic
+ * @param normalizers Normalizer names from the game's settings
+ * @returns The candidates, one per normalized form
+ */
+export function collectSuggestionCandidates(
+  dictionary: readonly DictionaryEntry[],
+  pastWords: readonly string[],
+  normalizers: readonly string[] = DEFAULT_NORMALIZERS
+): SuggestionCandidate[] {
+  const normalize = createNormalizer(normalizers);
+  const candidates = new Map<string, SuggestionCandidate>();
+
+  dictionary.flat().forEach(word => {
+    const normalized = normalize(word);
+    if (normalized && !candidates.has(normalized)) {
+      candidates.set(normalized, { word, normalized, count: 0, inDictionary: true });
+    }
+  });
+
+  // Count each spelling of past submissions, grouped by normalized form
+  const spellings = new Map<string, Map<string, number>>();
+  pastWords.forEach(rawWord => {
+    const word = rawWord.trim();
+    const normalized = normalize(word);
+    if (!normalized) return;
+
+    const counts = spellings.get(normalized) || new Map<string, number>();
+    counts.set(word, (counts.get(word) || 0) + 1);
+    spellings.set(normalized, counts);
+  });
+
+  spellings.forEach((counts, normalized) => {
+    const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+    const existing = candidates.get(normalized);
+
+    if (existing) {
+      existing.count += total;
+      return;
+    }
+
+    const [word] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0];
+    candidates.set(normalized, { word, normalized, count: total, inDictionary: false });
+  });
+
+  return Array.from(candidates.values());
+}
+
+/**
+ * Rank the candidates that could complete or correct a typed word
+ *
+ * Candidates are compared with the closest prefix of their normalized form, so
+ * "girafe" suggests "giraffe" and "elep" suggests "elephant". The closest
+ * matches come first, then dictionary words, then the most played words.
+ * Once the typed word is itself a candidate, only longer words starting with
+ * it are suggested, not other spellings of it.
+ *
+ * @param query The word being typed
+ * @param candidates Candidates from collectSuggestionCandidates
+ * @param normalizers Normalizer names from the game's settings
+ * @param limit Maximum number of suggestions
+ * @returns The suggested spellings, best first
+ */
+export function rankSuggestions(
+  query: string,
+  candidates: readonly SuggestionCandidate[],
+  normalizers: readonly string[] = DEFAULT_NORMALIZERS,
+  limit = MAX_SUGGESTIONS
+): string[] {
+  const normalizedQuery = createNormalizer(normalizers)(query);
+
+  if (normalizedQuery.length < MIN_SUGGESTION_QUERY_LENGTH) {
+    return [];
+  }
+
+  const isKnownWord = candidates.some(candidate => candidate.normalized === normalizedQuery);
+  const maxDistance = isKnownWord ? 0 : getMaxDistance(normalizedQuery.length);
+
+  return candidates
+    .filter(candidate => candidate.normalized !== normalizedQuery)
+    .map(candidate => ({ candidate, distance: editDistance(normalizedQuery, candidate.normalized, true) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) =>
+      a.distance - b.distance
+      || Number(b.candidate.inDictionary) - Number(a.candidate.inDictionary)
+      || b.candidate.count - a.candidate.count
+      || a.candidate.normalized.length - b.candidate.normalized.length
+      || a.candidate.word.localeCompare(b.candidate.word)
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => candidate.word);
+}
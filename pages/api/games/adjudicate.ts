@@ -0,0 +1,130 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import {
+  Adjudication,
+  AdjudicationVote,
+  ContestableWord,
+  isAdjudicationOpen,
+  settleAdjudicationVote,
+  validateAdjudication
+} from '../../../lib/adjudication';
+import { checkRoundActive, getGameStatus } from '../../../lib/gameState';
+import { publishGameEvent } from '../../../lib/gameEvents';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Propose to strike a word or merge words of a round being adjudicated
+ *
+ * POST { gameId, roundId, playerId, action: 'strike' | 'merge', words }
+ * The host's proposals are accepted straight away. Other players' proposals
+ * count as their approving vote and are decided by a majority of the players.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, roundId, playerId, action, words } = req.body;
+
+    if (!gameId || !roundId || !playerId || !action || !words) {
+      return res.status(400).json({ error: 'Game ID, round ID, player ID, action, and words are required' });
+    }
+
+    // Check that the player belongs to the game
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('id, is_host')
+      .eq('id', playerId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (playerError || !player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    // Get the round and the words players can contest
+    const statusError = checkRoundActive(await getGameStatus(gameId), 'contest words');
+    if (statusError) {
+      return res.status(409).json({ error: statusError });
+    }
+
+    const { data: round, error: roundError } = await supabase
+      .from('rounds')
+      .select('id, end_time, adjudication_deadline, adjudication_words')
+      .eq('id', roundId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (roundError || !round) {
+      return res.status(404).json({ error: 'Round not found' });
+    }
+
+    if (!isAdjudicationOpen(round)) {
+      return res.status(409).json({ error: 'Words can no longer be contested in this round' });
+    }
+
+    const contestableWords: ContestableWord[] = round.adjudication_words || [];
+    const errors = validateAdjudication(action, words, contestableWords);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid adjudication', details: errors });
+    }
+
+    const now = new Date().toISOString();
+    const { data: adjudication, error: insertError } = await supabase
+      .from('word_adjudications')
+      .insert({
+        game_id: gameId,
+        round_id: roundId,
+        player_id: playerId,
+        action,
+        words: Array.from(new Set(words as string[])),
+        ...(player.is_host
+          ? { status: 'accepted', decided_by: 'host', decided_at: now }
+          : { status: 'pending' })
+      })
+      .select()
+      .single();
+
+    if (insertError || !adjudication) {
+      throw insertError || new Error('Adjudication was not saved');
+    }
+
+    await publishGameEvent(gameId, 'adjudication_changed', { adjudication: adjudication as Adjudication });
+
+    if (player.is_host) {
+      return res.status(200).json({ success: true, adjudication });
+    }
+
+    // The proposer approves their own proposal
+    const proposerVote: AdjudicationVote = { adjudication_id: adjudication.id, player_id: playerId, approve: true };
+    const { error: voteError } = await supabase
+      .from('adjudication_votes')
+      .insert({ game_id: gameId, ...proposerVote });
+
+    if (voteError) {
+      throw voteError;
+    }
+
+    await publishGameEvent(gameId, 'adjudication_vote_cast', { vote: proposerVote });
+
+    const decided = await settleAdjudicationVote(adjudication.id, gameId);
+
+    return res.status(200).json({
+      success: true,
+      adjudication: (decided || adjudication) as Adjudication,
+    });
+  } catch (error) {
+    console.error('Error proposing adjudication:', error);
+    return res.status(500).json({ error: 'Failed to propose adjudication' });
+  }
+}
@@ -0,0 +1,126 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import {
+  decideAdjudication,
+  isAdjudicationOpen,
+  settleAdjudicationVote
+} from '../../../lib/adjudication';
+import { checkRoundActive, getGameStatus } from '../../../lib/gameState';
+import { publishGameEvent } from '../../../lib/gameEvents';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Approve or reject a pending adjudication proposal
+ *
+ * POST { gameId, adjudicationId, playerId, approve }
+ * The host's vote decides the proposal. Other players' votes are counted, and
+ * voting again changes the player's vote until a majority decides it.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, adjudicationId, playerId, approve } = req.body;
+
+    if (!gameId || !adjudicationId || !playerId || typeof approve !== 'boolean') {
+      return res.status(400).json({ error: 'Game ID, adjudication ID, player ID, and approve are required' });
+    }
+
+    // Check that the player belongs to the game
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('id, is_host')
+      .eq('id', playerId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (playerError || !player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    const { data: adjudication, error: adjudicationError } = await supabase
+      .from('word_adjudications')
+      .select('*')
+      .eq('id', adjudicationId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (adjudicationError || !adjudication) {
+      return res.status(404).json({ error: 'Adjudication not found' });
+    }
+
+    if (adjudication.status !== 'pending') {
+      return res.status(409).json({ error: 'This adjudication has already been decided' });
+    }
+
+    // Proposals can only be decided while the round is being adjudicated
+    const statusError = checkRoundActive(await getGameStatus(gameId), 'vote on contested words');
+    if (statusError) {
+      return res.status(409).json({ error: statusError });
+    }
+
+    const { data: round, error: roundError } = await supabase
+      .from('rounds')
+      .select('end_time, adjudication_deadline')
+      .eq('id', adjudication.round_id)
+      .single();
+
+    if (roundError || !round) {
+      return res.status(404).json({ error: 'Round not found' });
+    }
+
+    if (!isAdjudicationOpen(round)) {
+      return res.status(409).json({ error: 'Words can no longer be contested in this round' });
+    }
+
+    // The host has the final say
+    if (player.is_host) {
+      const decided = await decideAdjudication(adjudicationId, approve ? 'accepted' : 'rejected', 'host');
+
+      if (!decided) {
+        return res.status(409).json({ error: 'This adjudication has already been decided' });
+      }
+
+      return res.status(200).json({ success: true, decided: true, adjudication: decided });
+    }
+
+    const { error: voteError } = await supabase
+      .from('adjudication_votes')
+      .upsert({
+        game_id: gameId,
+        adjudication_id: adjudicationId,
+        player_id: playerId,
+        approve,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'adjudication_id,player_id' });
+
+    if (voteError) {
+      throw voteError;
+    }
+
+    await publishGameEvent(gameId, 'adjudication_vote_cast', {
+      vote: { adjudication_id: adjudicationId, player_id: playerId, approve }
+    });
+
+    const decided = await settleAdjudicationVote(adjudicationId, gameId);
+
+    return res.status(200).json({
+      success: true,
+      decided: !!decided,
+      adjudication: decided || adjudication,
+    });
+  } catch (error) {
+    console.error('Error voting on adjudication:', error);
+    return res.status(500).json({ error: 'Failed to vote on adjudication' });
+  }
+}
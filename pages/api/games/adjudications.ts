@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { Adjudication, AdjudicationVote } from '../../../lib/adjudication';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Get the adjudication history of a game
+ *
+ * GET /api/games/adjudications?gameId=...&roundId=...
+ * roundId is optional and narrows the history to one round. Every proposal is
+ * returned with its decision and the votes cast on it, oldest first.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, roundId } = req.query;
+
+    if (!gameId || typeof gameId !== 'string') {
+      return res.status(400).json({ error: 'Game ID is required' });
+    }
+
+    let adjudicationsQuery = supabase
+      .from('word_adjudications')
+      .select('*')
+      .eq('game_id', gameId)
+      .order('created_at');
+
+    if (typeof roundId === 'string') {
+      adjudicationsQuery = adjudicationsQuery.eq('round_id', roundId);
+    }
+
+    const [{ data: adjudications, error: adjudicationsError }, { data: votes, error: votesError }] = await Promise.all([
+      adjudicationsQuery,
+      supabase
+        .from('adjudication_votes')
+        .select('adjudication_id, player_id, approve')
+        .eq('game_id', gameId)
+    ]);
+
+    if (adjudicationsError || votesError) {
+      throw adjudicationsError || votesError;
+    }
+
+    const history = ((adjudications || []) as Adjudication[]).map(adjudication => ({
+      ...adjudication,
+      votes: ((votes || []) as AdjudicationVote[]).filter(vote => vote.adjudication_id === adjudication.id)
+    }));
+
+    return res.status(200).json({ adjudications: history });
+  } catch (error) {
+    console.error('Error loading adjudications:', error);
+    return res.status(500).json({ error: 'Failed to load adjudications' });
+  }
+}
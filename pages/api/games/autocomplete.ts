@@ -0,0 +1,117 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { getTopicDictionary } from '../../../lib/dictionaryManager';
+import { DEFAULT_NORMALIZERS } from '../../../lib/wordNormalizer';
+import {
+  collectSuggestionCandidates,
+  MIN_SUGGESTION_QUERY_LENGTH,
+  rankSuggestions,
+  SUGGESTION_ROUNDS_LIMIT
+} from '../../../lib/wordSuggestions';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Suggest spellings for a word being typed in a round
+ *
+ * GET /api/games/autocomplete?roundId=...&q=...
+ * Suggestions come from the round topic's dictionary and from words submitted
+ * in ended rounds of the same topic, ranked by edit distance so that typos
+ * such as "girafe" still suggest "giraffe". Words of open rounds are never
+ * suggested, so players cannot see each other's answers.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { roundId, q } = req.query;
+
+    if (!roundId || typeof roundId !== 'string') {
+      return res.status(400).json({ error: 'Round ID is required' });
+    }
+
+    if (typeof q !== 'string') {
+      return res.status(400).json({ error: 'Query is required' });
+    }
+
+    if (q.trim().length < MIN_SUGGESTION_QUERY_LENGTH) {
+      return res.status(200).json({ suggestions: [] });
+    }
+
+    const { data: round, error: roundError } = await supabase
+      .from('rounds')
+      .select('game_id, topic_id')
+      .eq('id', roundId)
+      .single();
+
+    if (roundError || !round) {
+      return res.status(404).json({ error: 'Round not found' });
+    }
+
+    // Rounds created before topic ids were stored have nothing to suggest
+    if (!round.topic_id) {
+      return res.status(200).json({ suggestions: [] });
+    }
+
+    // Use the game's normalizers, so suggestions agree with how words are matched
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('normalizers')
+      .eq('id', round.game_id)
+      .single();
+
+    if (gameError) {
+      console.error('Error loading game settings, using defaults:', gameError);
+    }
+
+    const normalizers: string[] = game?.normalizers || DEFAULT_NORMALIZERS;
+
+    // Get the most recent ended rounds of the topic, in any game
+    const { data: pastRounds, error: pastRoundsError } = await supabase
+      .from('rounds')
+      .select('id')
+      .eq('topic_id', round.topic_id)
+      .not('end_time', 'is', null)
+      .order('end_time', { ascending: false })
+      .limit(SUGGESTION_ROUNDS_LIMIT);
+
+    if (pastRoundsError) {
+      throw pastRoundsError;
+    }
+
+    let pastWords: string[] = [];
+
+    if (pastRounds && pastRounds.length > 0) {
+      const { data: submissions, error: submissionsError } = await supabase
+        .from('submissions')
+        .select('word')
+        .in('round_id', pastRounds.map(pastRound => pastRound.id));
+
+      if (submissionsError) {
+        throw submissionsError;
+      }
+
+      pastWords = (submissions || []).map(submission => submission.word);
+    }
+
+    const candidates = collectSuggestionCandidates(
+      getTopicDictionary(round.topic_id) || [],
+      pastWords,
+      normalizers
+    );
+
+    return res.status(200).json({ suggestions: rankSuggestions(q, candidates, normalizers) });
+  } catch (error) {
+    console.error('Error loading word suggestions:', error);
+    return res.status(500).json({ error: 'Failed to load word suggestions' });
+  }
+}
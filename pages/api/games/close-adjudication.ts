@@ -0,0 +1,92 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { isAdjudicationOpen } from '../../../lib/adjudication';
+import { publishGameEvent } from '../../../lib/gameEvents';
+import { checkRoundActive, getGameStatus } from '../../../lib/gameState';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Close a round's adjudication before its deadline (host only)
+ *
+ * Moves the adjudication deadline to now, so the next call to
+ * /api/games/end-round scores the round with the proposals accepted so far.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, roundId, playerId } = req.body;
+
+    if (!gameId || !roundId || !playerId) {
+      return res.status(400).json({ error: 'Game ID, round ID, and player ID are required' });
+    }
+
+    // Check if the player is the host
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('is_host')
+      .eq('id', playerId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (playerError || !player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    if (!player.is_host) {
+      return res.status(403).json({ error: 'Only the host can close the adjudication' });
+    }
+
+    const statusError = checkRoundActive(await getGameStatus(gameId), 'close the adjudication');
+    if (statusError) {
+      return res.status(409).json({ error: statusError });
+    }
+
+    const { data: round, error: roundError } = await supabase
+      .from('rounds')
+      .select('id, end_time, adjudication_deadline')
+      .eq('id', roundId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (roundError || !round) {
+      return res.status(404).json({ error: 'Round not found' });
+    }
+
+    // Closing an adjudication that has already closed is a no-op
+    if (!isAdjudicationOpen(round)) {
+      return res.status(200).json({ success: true, alreadyClosed: true });
+    }
+
+    const { data: closedRound, error: updateError } = await supabase
+      .from('rounds')
+      .update({ adjudication_deadline: new Date().toISOString() })
+      .eq('id', roundId)
+      .is('end_time', null)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    if (closedRound) {
+      await publishGameEvent(gameId, 'round_updated', { round: closedRound });
+    }
+
+    return res.status(200).json({ success: true, alreadyClosed: false });
+  } catch (error) {
+    console.error('Error closing adjudication:', error);
+    return res.status(500).json({ error: 'Failed to close adjudication' });
+  }
+}
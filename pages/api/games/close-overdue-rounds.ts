@@ -0,0 +1,170 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { isCronRequest } from '../../../lib/adminAuth';
+import { GameStatus } from '../../../lib/gameState';
+import { startNextRound } from '../../../lib/roundAdvance';
+import { endRound } from '../../../lib/roundEnd';
+import { closeTopicVote } from '../../../lib/topicVote';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Close every round that is still open after its deadline
+ *
+ * Runs on a schedule (see the cron in vercel.json) so that games keep moving
+ * even when every player has closed their browser. Each overdue round is ended
+ * with endRound, the same logic as /api/games/end-round, which is safe to call
+ * more than once. Rounds of games with adjudication only open it, and are
+ * scored by a later run once it closes. Topic votes that are still open after
+ * their deadline are closed as well, and the next round is started for reveals
+ * that are past their deadline. Paused and abandoned games are skipped,
+ * resuming a game moves its deadlines.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Allow GET for scheduled invocations and POST for manual calls
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isCronRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    // Find topic votes that are still open after their deadline
+    const { data: overdueVotes, error: votesError } = await supabase
+      .from('rounds')
+      .select('id, game_id')
+      .is('topic_id', null)
+      .is('end_time', null)
+      .lt('vote_deadline', new Date().toISOString());
+
+    if (votesError) {
+      throw votesError;
+    }
+
+    const closedVoteRoundIds: string[] = [];
+    const failedVoteRoundIds: string[] = [];
+
+    const votingGameIds = await getGameIdsWithStatus((overdueVotes || []).map(round => round.game_id), 'round-active');
+
+    for (const round of (overdueVotes || []).filter(round => votingGameIds.has(round.game_id))) {
+      console.log('Closing overdue topic vote:', round.id);
+
+      try {
+        await closeTopicVote(round.id);
+        closedVoteRoundIds.push(round.id);
+      } catch (error) {
+        console.error(`Error closing overdue topic vote ${round.id}:`, error);
+        failedVoteRoundIds.push(round.id);
+      }
+    }
+
+    // Find open rounds whose deadline has passed
+    const { data: overdueRounds, error: roundsError } = await supabase
+      .from('rounds')
+      .select('id, game_id')
+      .is('end_time', null)
+      .lt('deadline', new Date().toISOString());
+
+    if (roundsError) {
+      throw roundsError;
+    }
+
+    const closedRoundIds: string[] = [];
+    const adjudicatingRoundIds: string[] = [];
+    const failedRoundIds: string[] = [];
+
+    const playingGameIds = await getGameIdsWithStatus((overdueRounds || []).map(round => round.game_id), 'round-active');
+
+    for (const round of (overdueRounds || []).filter(round => playingGameIds.has(round.game_id))) {
+      console.log('Closing overdue round:', round.id);
+
+      try {
+        const { gameStatus, adjudicationDeadline } = await endRound(round.id);
+        if (gameStatus !== undefined) {
+          throw new Error(`The game is ${gameStatus || 'missing'}`);
+        }
+
+        if (adjudicationDeadline) {
+          adjudicatingRoundIds.push(round.id);
+        } else {
+          closedRoundIds.push(round.id);
+        }
+      } catch (error) {
+        console.error(`Error closing overdue round ${round.id}:`, error);
+        failedRoundIds.push(round.id);
+      }
+    }
+
+    // Find round reveals whose deadline has passed
+    const { data: overdueReveals, error: revealsError } = await supabase
+      .from('rounds')
+      .select('id, game_id, round_number')
+      .lt('reveal_deadline', new Date().toISOString());
+
+    if (revealsError) {
+      throw revealsError;
+    }
+
+    const advancedRoundIds: string[] = [];
+    const failedRevealRoundIds: string[] = [];
+
+    // Reveals of games that moved on are still cleared, only paused games wait
+    const pausedGameIds = await getGameIdsWithStatus((overdueReveals || []).map(round => round.game_id), 'paused');
+
+    for (const round of (overdueReveals || []).filter(round => !pausedGameIds.has(round.game_id))) {
+      console.log('Starting the round after overdue reveal:', round.id);
+
+      try {
+        const { error } = await startNextRound(round.game_id, round.round_number);
+        if (error) {
+          throw new Error(error);
+        }
+        advancedRoundIds.push(round.id);
+      } catch (error) {
+        console.error(`Error starting the round after reveal ${round.id}:`, error);
+        failedRevealRoundIds.push(round.id);
+      }
+    }
+
+    return res.status(200).json({
+      success: failedRoundIds.length === 0 && failedVoteRoundIds.length === 0 && failedRevealRoundIds.length === 0,
+      closedRoundIds,
+      adjudicatingRoundIds,
+      failedRoundIds,
+      closedVoteRoundIds,
+      failedVoteRoundIds,
+      advancedRoundIds,
+      failedRevealRoundIds,
+    });
+  } catch (error) {
+    console.error('Error closing overdue rounds:', error);
+    return res.status(500).json({ error: 'Failed to close overdue rounds' });
+  }
+}
+
+/**
+ * Get the IDs of the games, out of the given ones, that are in a status
+ */
+async function getGameIdsWithStatus(gameIds: string[], status: GameStatus): Promise<Set<string>> {
+  if (gameIds.length === 0) return new Set();
+
+  const { data: games, error: gamesError } = await supabase
+    .from('games')
+    .select('id')
+    .in('id', Array.from(new Set(gameIds)))
+    .eq('status', status);
+
+  if (gamesError) {
+    throw gamesError;
+  }
+
+  return new Set((games || []).map(game => game.id));
+}
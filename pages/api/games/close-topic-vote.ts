@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { closeTopicVote } from '../../../lib/topicVote';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Close a round's topic vote once its deadline has passed and start the round
+ *
+ * Called by the host's browser when the voting window runs out. Closing a vote
+ * that has already closed is safe and leaves the round alone.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, roundId } = req.body;
+
+    if (!gameId || !roundId) {
+      return res.status(400).json({ error: 'Game ID and round ID are required' });
+    }
+
+    const { data: round, error: roundError } = await supabase
+      .from('rounds')
+      .select('id, topic_id, vote_deadline')
+      .eq('id', roundId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (roundError || !round) {
+      return res.status(404).json({ error: 'Round not found' });
+    }
+
+    if (!round.topic_id && (!round.vote_deadline || new Date(round.vote_deadline).getTime() > Date.now())) {
+      return res.status(400).json({ error: 'Voting for this round is still open' });
+    }
+
+    const { closed, topicId, error } = await closeTopicVote(roundId);
+
+    if (error) {
+      return res.status(409).json({ error });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: closed ? 'Topic vote closed' : 'Topic vote had already closed',
+      alreadyClosed: !closed,
+      topicId,
+    });
+  } catch (error) {
+    console.error('Error closing topic vote:', error);
+    return res.status(500).json({ error: 'Failed to close topic vote' });
+  }
+}
@@ -1,6 +1,8 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_NORMALIZERS } from '../../../lib/wordNormalizer';
+import { DEFAULT_GAME_SETTINGS, toGameSettingsRow } from '../../../lib/gameSettings';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -60,10 +62,9 @@ export default async function handler(
           id: uuidv4(),
           code: gameCode,
           status: 'lobby',
-          round_count: 5, // Default to 5 rounds
           current_round: 0,
-          time_per_round: 60, // Default to 60 seconds per round
-          max_players: 8, // Default to 8 max players
+          ...toGameSettingsRow(DEFAULT_GAME_SETTINGS), // The host can change these in the lobby
+          normalizers: DEFAULT_NORMALIZERS, // Word normalizers used when scoring
         },
       ])
       .select()
@@ -1,16 +1,21 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { createClient } from '@supabase/supabase-js';
-import { 
-  calculateMatchRoundScores, 
-  calculateUnmatchRoundScores, 
-  saveRoundScores 
-} from '../../../lib/scoreCalculator';
+import { endRound } from '../../../lib/roundEnd';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
 const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+/**
+ * End a round of the game once its time is up or every player has locked in
+ *
+ * POST { gameId, roundId, roundNumber, playerId }
+ *
+ * Any player of the game may call it. A round that is still being played
+ * returns 409.
+ */
+
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -21,216 +26,68 @@ export default async function handler(
   }
 
   try {
-    const { gameId, roundId, roundNumber } = req.body;
+    const { gameId, roundId, roundNumber, playerId } = req.body;
 
-    if (!gameId || !roundId || roundNumber === undefined) {
-      return res.status(400).json({ error: 'Game ID, round ID, and round number are required' });
+    if (!gameId || !roundId || roundNumber === undefined || !playerId) {
+      return res.status(400).json({ error: 'Game ID, round ID, round number, and player ID are required' });
     }
 
-    // Mark the round as completed
-    const { error: roundError } = await supabase
-      .from('rounds')
-      .update({ 
-        end_time: new Date().toISOString()
-      })
-      .eq('id', roundId);
+    // Check that the player belongs to the game
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('id')
+      .eq('id', playerId)
+      .eq('game_id', gameId)
+      .single();
 
-    if (roundError) {
-      throw roundError;
+    if (playerError || !player) {
+      return res.status(404).json({ error: 'Player not found' });
     }
 
-    // Calculate scores for the round
-    await calculateRoundScores(roundId, roundNumber);
-
-    return res.status(200).json({
-      success: true,
-      message: 'Round ended successfully',
-    });
-  } catch (error) {
-    console.error('Error ending round:', error);
-    return res.status(500).json({ error: 'Failed to end round' });
-  }
-}
-
-async function calculateRoundScores(roundId: string, roundNumber: number) {
-  try {
-    // Get game ID from the round
-    const { data: roundData, error: roundError } = await supabase
+    const { data: round, error: roundError } = await supabase
       .from('rounds')
-      .select('game_id, type')
+      .select('game_id')
       .eq('id', roundId)
       .single();
 
-    if (roundError || !roundData) {
-      throw roundError || new Error('Round not found');
+    if (roundError || !round || round.game_id !== gameId) {
+      return res.status(404).json({ error: 'Round not found' });
     }
 
-    // Fetch all submissions for this round
-    const { data: submissionsData, error: submissionsError } = await supabase
-      .from('submissions')
-      .select('player_id, word')
-      .eq('round_id', roundId);
+    // Score the round and mark it as completed
+    // Repeat calls for a round that has already ended return its stored scores
+    // When the game uses adjudication, the first call opens it and the round is scored after it closes
+    const { finalized, scores, revealDeadline, adjudicationDeadline, gameStatus, stillPlaying } = await endRound(roundId);
 
-    if (submissionsError) {
-      throw submissionsError;
+    if (gameStatus !== undefined) {
+      return res.status(409).json({ error: `Cannot end a round while the game is ${gameStatus || 'missing'}` });
     }
 
-    if (!submissionsData || submissionsData.length === 0) {
-      console.log('No submissions found for round', roundId);
-      return; // No submissions to score
+    if (stillPlaying) {
+      return res.status(409).json({ error: 'The round is still being played' });
     }
 
-    // Organize submissions by player
-    const playerWords: { [playerId: string]: string[] } = {};
-    
-    // Group submissions by player
-    submissionsData.forEach(submission => {
-      if (!playerWords[submission.player_id]) {
-        playerWords[submission.player_id] = [];
-      }
-      
-      if (submission.word && submission.word.trim() !== '') {
-        playerWords[submission.player_id].push(submission.word.toLowerCase().trim());
-      }
-    });
-    
-    console.log('Player words for scoring:', playerWords);
-
-    // Define the PlayerScores type to match what the calculation functions return
-    interface PlayerScore {
-      score: number;
-      matchedWords: string[];
-      bonusAwarded: boolean;
-    }
-    
-    type PlayerScores = Record<string, PlayerScore>;
-    
-    // Calculate scores based on round type
-    let scores: PlayerScores = {};
-    
-    if (roundData.type === 'match') {
-      // For match rounds, use the enhanced scoring logic
-      scores = calculateMatchRoundScores(playerWords);
-      console.log('Match round scores:', scores);
-    } else {
-      // For unmatch rounds, use the enhanced scoring logic
-      scores = calculateUnmatchRoundScores(playerWords);
-      console.log('Unmatch round scores:', scores);
-    }
-    
-    // Save the scores to the database
-    await saveRoundScores(roundId, scores);
-
-    // If this is the last round, update the game status to 'completed'
-    const { data: game, error: gameError } = await supabase
-      .from('games')
-      .select('round_count, current_round')
-      .eq('id', roundData.game_id)
-      .single();
-
-    if (gameError) {
-      console.error('Error checking game status:', gameError);
-    } else if (game) {
-      console.log('Game status check:', { 
-        current_round: game.current_round, 
-        round_count: game.round_count,
-        isLastRound: game.current_round >= game.round_count
+    if (adjudicationDeadline) {
+      return res.status(200).json({
+        success: true,
+        message: 'Players can contest words before the round is scored',
+        alreadyEnded: false,
+        adjudicating: true,
+        adjudicationDeadline,
       });
-      
-      if (game.current_round >= game.round_count) {
-        console.log('This is the last round. Setting game status to completed.');
-        const { error: updateError } = await supabase
-          .from('games')
-          .update({ status: 'completed' })
-          .eq('id', roundData.game_id);
-          
-        if (updateError) {
-          console.error('Error updating game status to completed:', updateError);
-        } else {
-          console.log('Game status updated to completed successfully');
-        }
-      } else {
-        // Not the last round, automatically start the next round
-        console.log('Starting next round automatically');
-        
-        // Load topics for the game
-        let topics;
-        try {
-          // Fetch topics from the API directly
-          const apiUrl = process.env.NODE_ENV === 'production' 
-            ? `${process.env.NEXT_PUBLIC_SUPABASE_URL}/functions/v1/topics-function`
-            : `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3004'}/api/topics`;
-            
-          console.log('Fetching topics from:', apiUrl);
-          const response = await fetch(apiUrl);
-          
-          if (!response.ok) {
-            throw new Error(`Failed to fetch topics: ${response.status}`);
-          }
-          
-          topics = await response.json();
-          console.log('Loaded topics:', topics);
-        } catch (error) {
-          console.error('Error loading topics:', error);
-          // Use fallback topics if API fails
-          topics = {
-            match: [
-              { id: 'animals', name: 'Animals', description: 'Think of animals from around the world' },
-              { id: 'countries', name: 'Countries', description: 'Name countries from any continent' },
-              { id: 'food', name: 'Food', description: 'List different types of food and dishes' }
-            ],
-            unmatch: [
-              { id: 'emotions', name: 'Emotions', description: 'List different feelings and emotional states' },
-              { id: 'colors', name: 'Colors', description: 'Name different colors and shades' },
-              { id: 'weather', name: 'Weather Phenomena', description: 'Think of different weather conditions and events' }
-            ]
-          };
-          console.log('Using fallback topics:', topics);
-        }
-
-        // Determine the next round type (alternate between match and unmatch)
-        const nextRoundNumber = game.current_round + 1;
-        const nextRoundType = nextRoundNumber % 2 === 0 ? 'match' : 'unmatch';
-        
-        // Select a random topic for the next round
-        const availableTopics = topics[nextRoundType];
-        const randomIndex = Math.floor(Math.random() * availableTopics.length);
-        const nextTopic = availableTopics[randomIndex];
-        
-        console.log('Selected topic:', nextTopic);
-        
-        // Create a new round
-        const { error: roundError } = await supabase
-          .from('rounds')
-          .insert({
-            game_id: roundData.game_id,
-            round_number: nextRoundNumber,
-            type: nextRoundType,
-            topic: nextTopic.name,
-            topic_id: nextTopic.id,
-            start_time: new Date().toISOString(),
-            end_time: null
-          });
-
-        if (roundError) {
-          console.error('Error creating next round:', roundError);
-        } else {
-          // Update the game's current round
-          const { error: updateGameError } = await supabase
-            .from('games')
-            .update({ current_round: nextRoundNumber })
-            .eq('id', roundData.game_id);
-
-          if (updateGameError) {
-            console.error('Error updating game current round:', updateGameError);
-          } else {
-            console.log('Next round started automatically:', nextRoundNumber);
-          }
-        }
-      }
     }
+
+    return res.status(200).json({
+      success: true,
+      message: finalized ? 'Round ended successfully' : 'Round had already ended',
+      alreadyEnded: !finalized,
+      adjudicating: false,
+      scores,
+      revealDeadline,
+    });
   } catch (error) {
-    console.error('Error calculating round scores:', error);
-    throw error;
+    console.error('Error ending round:', error);
+    return res.status(500).json({ error: 'Failed to end round' });
   }
 }
+
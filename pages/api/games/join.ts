@@ -1,6 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
+import { publishGameEvent } from '../../../lib/gameEvents';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -77,6 +78,8 @@ export default async function handler(
       throw playerError;
     }
 
+    await publishGameEvent(game.id, 'player_joined', { player });
+
     return res.status(200).json({
       game,
       player,
@@ -0,0 +1,92 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { fromStoredLedgerEntry, LEDGER_COLUMNS, StoredLedgerEntry } from '../../../lib/scoreCalculator';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Get the scoring ledger of a game's ended rounds
+ *
+ * GET /api/games/ledger?gameId=...&roundId=...&playerId=...
+ * roundId and playerId are optional and narrow the ledger to one round or player.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, roundId, playerId } = req.query;
+
+    if (!gameId || typeof gameId !== 'string') {
+      return res.status(400).json({ error: 'Game ID is required' });
+    }
+
+    // Get the game's rounds, to number the ledger entries
+    let roundsQuery = supabase
+      .from('rounds')
+      .select('id, round_number')
+      .eq('game_id', gameId)
+      .order('round_number');
+
+    if (typeof roundId === 'string') {
+      roundsQuery = roundsQuery.eq('id', roundId);
+    }
+
+    const { data: rounds, error: roundsError } = await roundsQuery;
+
+    if (roundsError) {
+      throw roundsError;
+    }
+
+    if (typeof roundId === 'string' && (!rounds || rounds.length === 0)) {
+      return res.status(404).json({ error: 'Round not found' });
+    }
+
+    if (!rounds || rounds.length === 0) {
+      return res.status(200).json({ ledger: [] });
+    }
+
+    let ledgerQuery = supabase
+      .from('round_score_ledger')
+      .select(LEDGER_COLUMNS)
+      .in('round_id', rounds.map(round => round.id))
+      .order('normalized_word');
+
+    if (typeof playerId === 'string') {
+      ledgerQuery = ledgerQuery.eq('player_id', playerId);
+    }
+
+    const { data: entries, error: ledgerError } = await ledgerQuery;
+
+    if (ledgerError) {
+      throw ledgerError;
+    }
+
+    const roundNumbers: { [roundId: string]: number } = {};
+    rounds.forEach(round => {
+      roundNumbers[round.id] = round.round_number;
+    });
+
+    const ledger = ((entries || []) as StoredLedgerEntry[])
+      .map(entry => ({
+        roundId: entry.round_id,
+        roundNumber: roundNumbers[entry.round_id],
+        playerId: entry.player_id,
+        ...fromStoredLedgerEntry(entry)
+      }))
+      .sort((a, b) => a.roundNumber - b.roundNumber);
+
+    return res.status(200).json({ ledger });
+  } catch (error) {
+    console.error('Error loading scoring ledger:', error);
+    return res.status(500).json({ error: 'Failed to load scoring ledger' });
+  }
+}
@@ -0,0 +1,77 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { startNextRound } from '../../../lib/roundAdvance';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * End a round's reveal and start the next round
+ *
+ * The host can advance as soon as the round has ended. Other players can only
+ * advance once the reveal timer has run out, so a game keeps moving when the
+ * host has left. Advancing a round that has already advanced is safe.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, playerId, roundNumber } = req.body;
+
+    if (!gameId || !playerId || roundNumber === undefined) {
+      return res.status(400).json({ error: 'Game ID, player ID, and round number are required' });
+    }
+
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('*')
+      .eq('id', playerId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (playerError || !player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    if (!player.is_host) {
+      const { data: round, error: roundError } = await supabase
+        .from('rounds')
+        .select('reveal_deadline')
+        .eq('game_id', gameId)
+        .eq('round_number', roundNumber)
+        .single();
+
+      if (roundError || !round) {
+        return res.status(404).json({ error: 'Round not found' });
+      }
+
+      if (round.reveal_deadline && new Date(round.reveal_deadline).getTime() > Date.now()) {
+        return res.status(403).json({ error: 'Only the host can start the next round before the reveal ends' });
+      }
+    }
+
+    const { started, roundNumber: currentRound, error } = await startNextRound(gameId, Number(roundNumber));
+
+    if (error) {
+      return res.status(409).json({ error });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: started ? 'Next round started' : 'Next round had already started',
+      alreadyStarted: !started,
+      roundNumber: currentRound,
+    });
+  } catch (error) {
+    console.error('Error starting next round:', error);
+    return res.status(500).json({ error: 'Failed to start next round' });
+  }
+}
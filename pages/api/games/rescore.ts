@@ -0,0 +1,177 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { isAdminRequest } from '../../../lib/adminAuth';
+import { publishGameEvent } from '../../../lib/gameEvents';
+import { scoreRoundSubmissions } from '../../../lib/roundScoring';
+import { rescoreRoundScores } from '../../../lib/scoreCalculator';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Define types
+interface ScoreChange {
+  playerId: string;
+  before: number | null; // null when the player had no score
+  after: number | null;
+}
+
+type ScoresByPlayer = { [playerId: string]: number };
+
+/**
+ * List the players whose score differs between two sets of scores
+ */
+function diffScores(before: ScoresByPlayer, after: ScoresByPlayer): ScoreChange[] {
+  const playerIds = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return playerIds
+    .filter(playerId => before[playerId] !== after[playerId])
+    .map(playerId => ({
+      playerId,
+      before: before[playerId] ?? null,
+      after: after[playerId] ?? null
+    }));
+}
+
+/**
+ * Re-score ended rounds from their stored submissions (admin only)
+ *
+ * POST /api/games/rescore with { roundId } for one round or { gameId } for every
+ * ended round of a game. Rounds are scored with the current scoring rules and
+ * game settings, and the players' totals are rebuilt from their round scores.
+ * With { dryRun: true } nothing is saved. Returns only the scores that changed.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const { roundId, gameId, dryRun = false } = req.body;
+
+    if (!roundId && !gameId) {
+      return res.status(400).json({ error: 'Round ID or game ID is required' });
+    }
+
+    if (typeof dryRun !== 'boolean') {
+      return res.status(400).json({ error: 'dryRun must be a boolean' });
+    }
+
+    // Find the game of the round being re-scored
+    let targetGameId = gameId;
+    if (roundId) {
+      const { data: round, error: roundError } = await supabase
+        .from('rounds')
+        .select('game_id')
+        .eq('id', roundId)
+        .single();
+
+      if (roundError || !round) {
+        return res.status(404).json({ error: 'Round not found' });
+      }
+
+      targetGameId = round.game_id;
+    }
+
+    const [{ data: rounds, error: roundsError }, { data: players, error: playersError }] = await Promise.all([
+      supabase
+        .from('rounds')
+        .select('id, game_id, round_number, type, topic_id, end_time')
+        .eq('game_id', targetGameId)
+        .order('round_number'),
+      supabase
+        .from('players')
+        .select('id, score')
+        .eq('game_id', targetGameId)
+    ]);
+
+    if (roundsError || playersError) {
+      throw roundsError || playersError;
+    }
+
+    if (!rounds || rounds.length === 0) {
+      return res.status(404).json({ error: 'No rounds found for game' });
+    }
+
+    // Rounds still being played are scored when they end
+    const roundsToRescore = rounds.filter(round => round.end_time && (!roundId || round.id === roundId));
+
+    if (roundId && roundsToRescore.length === 0) {
+      return res.status(400).json({ error: 'Round has not ended yet' });
+    }
+
+    // Get the stored scores of every round, which the players' totals are rebuilt from
+    const { data: storedScores, error: scoresError } = await supabase
+      .from('round_scores')
+      .select('round_id, player_id, score')
+      .in('round_id', rounds.map(round => round.id));
+
+    if (scoresError) {
+      throw scoresError;
+    }
+
+    const scoresBefore: { [roundId: string]: ScoresByPlayer } = {};
+    rounds.forEach(round => {
+      scoresBefore[round.id] = {};
+    });
+    (storedScores || []).forEach(row => {
+      scoresBefore[row.round_id][row.player_id] = row.score;
+    });
+
+    const scoresAfter: { [roundId: string]: ScoresByPlayer } = { ...scoresBefore };
+    const roundChanges: { roundId: string; roundNumber: number; changes: ScoreChange[] }[] = [];
+
+    // Re-score one round at a time, each in its own transaction
+    for (const round of roundsToRescore) {
+      const calculatedScores = await scoreRoundSubmissions(round);
+      const newScores = dryRun ? calculatedScores : await rescoreRoundScores(round.id, calculatedScores);
+
+      scoresAfter[round.id] = {};
+      Object.entries(newScores).forEach(([playerId, scoreData]) => {
+        scoresAfter[round.id][playerId] = scoreData.score;
+      });
+
+      const changes = diffScores(scoresBefore[round.id], scoresAfter[round.id]);
+      if (changes.length > 0) {
+        roundChanges.push({ roundId: round.id, roundNumber: round.round_number, changes });
+      }
+    }
+
+    // Totals are the sum of each player's round scores, as rescore_round rebuilds them
+    const totalsBefore: ScoresByPlayer = {};
+    const totalsAfter: ScoresByPlayer = {};
+    (players || []).forEach(player => {
+      totalsBefore[player.id] = player.score;
+      totalsAfter[player.id] = rounds.reduce(
+        (total, round) => total + (scoresAfter[round.id][player.id] || 0), 0
+      );
+    });
+
+    console.log(`${dryRun ? 'Dry run re-scored' : 'Re-scored'} rounds:`, roundsToRescore.map(round => round.id));
+
+    if (!dryRun) {
+      await publishGameEvent(targetGameId, 'scores_updated', { gameId: targetGameId });
+    }
+
+    return res.status(200).json({
+      success: true,
+      dryRun,
+      gameId: targetGameId,
+      rescoredRoundIds: roundsToRescore.map(round => round.id),
+      rounds: roundChanges,
+      players: diffScores(totalsBefore, totalsAfter)
+    });
+  } catch (error) {
+    console.error('Error re-scoring rounds:', error);
+    return res.status(500).json({ error: 'Failed to re-score rounds' });
+  }
+}
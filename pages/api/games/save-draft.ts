@@ -0,0 +1,110 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { getGameSettings } from '../../../lib/gameSettings';
+import { checkRoundActive } from '../../../lib/gameState';
+import { isRoundOpenForSubmissions, validateSubmission } from '../../../lib/submissions';
+import { DEFAULT_NORMALIZERS } from '../../../lib/wordNormalizer';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Save the words a player is still typing as drafts
+ *
+ * POST { gameId, roundId, playerId, words }
+ * Replaces the player's drafts in the round. Drafts are checked like submitted
+ * words, except that an empty list clears them. When the round ends, the drafts
+ * of players who never submitted become their final words.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, roundId, playerId, words } = req.body;
+
+    if (!gameId || !roundId || !playerId) {
+      return res.status(400).json({ error: 'Game ID, round ID, and player ID are required' });
+    }
+
+    // Check that the player belongs to the game
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('id')
+      .eq('id', playerId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (playerError || !player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    const { data: round, error: roundError } = await supabase
+      .from('rounds')
+      .select('id, start_time, end_time, deadline, adjudication_deadline')
+      .eq('id', roundId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (roundError || !round) {
+      return res.status(404).json({ error: 'Round not found' });
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('status, time_per_round, words_per_round, normalizers')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    const statusError = checkRoundActive(game.status, 'save words');
+    if (statusError) {
+      return res.status(409).json({ error: statusError });
+    }
+
+    const settings = getGameSettings(game);
+
+    if (!isRoundOpenForSubmissions(round, settings.timePerRound)) {
+      return res.status(409).json({ error: 'This round is not taking submissions' });
+    }
+
+    const { words: draftWords, errors } = validateSubmission(words, {
+      wordsPerRound: settings.wordsPerRound,
+      normalizers: game.normalizers || DEFAULT_NORMALIZERS,
+      allowEmpty: true
+    });
+
+    if (!draftWords) {
+      return res.status(400).json({ error: 'Invalid words', details: errors });
+    }
+
+    const { data: saved, error: saveError } = await supabase.rpc('save_submission_drafts', {
+      p_round_id: roundId,
+      p_player_id: playerId,
+      p_words: draftWords
+    });
+
+    if (saveError) {
+      throw saveError;
+    }
+
+    if (!saved) {
+      return res.status(409).json({ error: 'Words have already been submitted for this round' });
+    }
+
+    return res.status(200).json({ success: true, words: draftWords });
+  } catch (error) {
+    console.error('Error saving draft words:', error);
+    return res.status(500).json({ error: 'Failed to save draft words' });
+  }
+}
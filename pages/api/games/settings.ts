@@ -0,0 +1,104 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { publishGameEvent } from '../../../lib/gameEvents';
+import { getGameSettings, toGameSettingsRow, validateGameSettings } from '../../../lib/gameSettings';
+import { getGameTopics } from '../../../lib/topicPacks';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, playerId, settings: requestedSettings } = req.body;
+
+    if (!gameId || !playerId || !requestedSettings) {
+      return res.status(400).json({ error: 'Game ID, player ID, and settings are required' });
+    }
+
+    // Check if the player is the host
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('*')
+      .eq('id', playerId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (playerError || !player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    if (!player.is_host) {
+      return res.status(403).json({ error: 'Only the host can change the game settings' });
+    }
+
+    // Get the game
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('*')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    if (game.status !== 'lobby') {
+      return res.status(400).json({ error: 'Settings can only be changed before the game starts' });
+    }
+
+    // Validate the requested settings against the current ones and the game's topics
+    const gameTopics = await getGameTopics(game.topic_pack_ids);
+    const { settings, errors } = validateGameSettings(getGameSettings(game), requestedSettings, gameTopics);
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid game settings', details: errors });
+    }
+
+    // Make sure the player limit still fits everyone who has already joined
+    const { count, error: countError } = await supabase
+      .from('players')
+      .select('*', { count: 'exact', head: true })
+      .eq('game_id', gameId);
+
+    if (countError) {
+      throw countError;
+    }
+
+    if (count && settings.maxPlayers < count) {
+      return res.status(400).json({ error: `Max players cannot be lower than the ${count} players already in the game` });
+    }
+
+    // Save the settings on the game
+    const { data: updatedGame, error: updateError } = await supabase
+      .from('games')
+      .update(toGameSettingsRow(settings))
+      .eq('id', gameId)
+      .select()
+      .single();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    await publishGameEvent(gameId, 'settings_changed', { settings });
+
+    return res.status(200).json({
+      success: true,
+      game: updatedGame,
+      settings,
+    });
+  } catch (error) {
+    console.error('Error updating game settings:', error);
+    return res.status(500).json({ error: 'Failed to update game settings' });
+  }
+}
@@ -1,80 +1,21 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
-
-// Define topic interface
-interface Topic {
-  id: string;
-  name: string;
-  description: string;
-}
-
-interface TopicsCollection {
-  match: Topic[];
-  unmatch: Topic[];
-}
-
-// Define all game topics directly in this file
-const embeddedTopics: TopicsCollection = {
-  match: [
-    { id: 'animals', name: 'Animals', description: 'Think of animals from around the world' },
-    { id: 'countries', name: 'Countries', description: 'Name countries from any continent' },
-    { id: 'food', name: 'Food', description: 'List different types of food and dishes' },
-    { id: 'sports', name: 'Sports', description: 'Name sports played around the world' },
-    { id: 'movies', name: 'Movies', description: 'Think of movie titles from any genre or era' },
-    { id: 'professions', name: 'Professions', description: 'List different jobs and career paths' },
-    { id: 'cities', name: 'Cities', description: 'Name cities from around the world' },
-    { id: 'musical_instruments', name: 'Musical Instruments', description: 'List instruments used to make music' },
-    { id: 'hobbies', name: 'Hobbies', description: 'Think of activities people do for fun' },
-    { id: 'famous_people', name: 'Famous People', description: 'Name well-known celebrities, historical figures, or public personalities' }
-  ],
-  unmatch: [
-    { id: 'emotions', name: 'Emotions', description: 'List different feelings and emotional states' },
-    { id: 'colors', name: 'Colors', description: 'Name different colors and shades' },
-    { id: 'weather', name: 'Weather Phenomena', description: 'Think of different weather conditions and events' },
-    { id: 'body_parts', name: 'Body Parts', description: 'List different parts of the human body' },
-    { id: 'transportation', name: 'Transportation', description: 'Name different modes of transportation' },
-    { id: 'furniture', name: 'Furniture', description: 'Think of items found in homes and offices' },
-    { id: 'school_subjects', name: 'School Subjects', description: 'List academic subjects taught in schools' },
-    { id: 'clothing', name: 'Clothing Items', description: 'Name different articles of clothing' },
-    { id: 'nature', name: 'Nature', description: 'Think of natural elements, landscapes, and phenomena' },
-    { id: 'technology', name: 'Technology', description: 'List gadgets, devices, and technological concepts' }
-  ]
-};
+import { getScoringRule } from '../../../lib/scoreCalculator';
+import { publishGameEvent } from '../../../lib/gameEvents';
+import { getGameSettings, getRoundPlanEntry } from '../../../lib/gameSettings';
+import { transitionGame } from '../../../lib/gameState';
+import { getUsedTopicIds, pickTopicCandidates, RoundPlanEntry } from '../../../lib/roundPlan';
+import { describeTopicFilter } from '../../../lib/topicFilter';
+import { getGameTopics } from '../../../lib/topicPacks';
+import { Topic } from '../../../lib/topicRegistry';
+import { getRoundTopicFields, TOPIC_VOTE_CANDIDATES } from '../../../lib/topicVote';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
 const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
-// Function to get topics - always use embedded data
-async function getTopics() {
-  try {
-    // Log the topics structure for debugging
-    console.log('Topics structure:', JSON.stringify({
-      hasMatch: !!embeddedTopics.match,
-      matchLength: embeddedTopics.match.length,
-      hasUnmatch: !!embeddedTopics.unmatch,
-      unmatchLength: embeddedTopics.unmatch.length
-    }));
-    
-    return embeddedTopics;
-  } catch (error) {
-    console.error('Error getting topics:', error);
-    // Return default topics as fallback
-    return {
-      match: [
-        { id: 'animals', name: 'Animals', description: 'Think of animals from around the world' },
-        { id: 'countries', name: 'Countries', description: 'Name countries from any continent' }
-      ],
-      unmatch: [
-        { id: 'emotions', name: 'Emotions', description: 'List different feelings and emotional states' },
-        { id: 'colors', name: 'Colors', description: 'Name different colors and shades' }
-      ]
-    };
-  }
-}
-
 export default async function handler(
   req: NextApiRequest,
   res: NextApiResponse
@@ -118,6 +59,11 @@ export default async function handler(
       return res.status(404).json({ error: 'Game not found' });
     }
 
+    // Rounds start once the game has started, or after the previous round's reveal
+    if (game.status !== 'round-active' && game.status !== 'reveal') {
+      return res.status(409).json({ error: `Cannot start a round while the game is ${game.status}` });
+    }
+
     // Check if we've reached the maximum number of rounds
     if (game.current_round >= game.round_count) {
       return res.status(400).json({ error: 'Maximum number of rounds reached' });
@@ -143,79 +89,114 @@ export default async function handler(
       }
     }
 
-    // Load topics for the game
-    let topics = await getTopics();
+    const settings = getGameSettings(game);
+
+    // Rounds draw from the game's topic packs, or the built-in topics when it has none
+    const topics = await getGameTopics(game.topic_pack_ids);
 
-    // Get the round type from request body or determine it based on round number
-    const roundType = req.body.roundType || (currentRoundNumber % 2 === 0 ? 'match' : 'unmatch');
+    // Get the round type from request body or determine it from the game's round plan or round mix
+    const plannedRound = getRoundPlanEntry(settings, currentRoundNumber);
+    const roundType = req.body.roundType || plannedRound.type;
     console.log('Using round type:', roundType);
+
+    // Make sure the round type has a registered scoring rule
+    const scoringRule = getScoringRule(roundType);
+    if (!scoringRule) {
+      return res.status(400).json({ error: `Unknown round type: ${roundType}` });
+    }
     
-    // Get the topic ID from request body or select a random one
-    let topicId = req.body.topicId;
-    let topicName = '';
+    // Use the topic ID from request body, or offer the players candidate topics to vote on
+    const topicId = req.body.topicId;
+    let candidates: Topic[] = [];
     
     if (!topicId) {
-      // Select a random topic for the round
-      const availableTopics = topics[roundType as keyof TopicsCollection];
+      // Select the candidates from the round plan, only if the round type was not overridden,
+      // from the topics that pass the game's topic filter and that the game has not played yet
+      const availableTopics = topics[scoringRule.topicPool];
       if (!availableTopics || availableTopics.length === 0) {
         console.error('No topics available for type:', roundType);
         return res.status(500).json({ error: 'No topics available for the selected round type' });
       }
       
-      const randomIndex = Math.floor(Math.random() * availableTopics.length);
-      topicId = availableTopics[randomIndex].id;
-      topicName = availableTopics[randomIndex].name;
+      const topicEntry: RoundPlanEntry = plannedRound.type === roundType ? plannedRound : { type: roundType };
+      const usedTopicIds = await getUsedTopicIds(gameId);
+      candidates = pickTopicCandidates(
+        availableTopics, topicEntry, TOPIC_VOTE_CANDIDATES, usedTopicIds, settings.topicFilter
+      );
+      if (candidates.length === 0) {
+        console.error('No topic matches the round plan entry:', topicEntry);
+        return res.status(409).json({
+          error: `No ${roundType} topics match the game's topic filter (${describeTopicFilter(settings.topicFilter)})`,
+        });
+      }
     } else {
-      // Find the topic name by ID
-      const topicList = topics[roundType as keyof TopicsCollection];
-      const topic = topicList.find((t: Topic) => t.id === topicId);
+      // Find the topic by ID
+      const topicList = topics[scoringRule.topicPool];
+      const topic = topicList.find(t => t.id === topicId);
       if (!topic) {
         console.error('Topic not found with ID:', topicId);
         return res.status(404).json({ error: 'Topic not found' });
       }
-      topicName = topic.name;
+      candidates = [topic];
     }
     
-    console.log('Selected topic ID:', topicId, 'name:', topicName);
+    console.log('Candidate topic IDs:', candidates.map(topic => topic.id));
 
     // Create a new round
     const newRoundNumber = currentRoundNumber; // Use the currentRoundNumber from the request
     const roundId = uuidv4();
+
+    // With a single candidate the round starts now and closes on the server once its
+    // deadline has passed, otherwise it starts when the topic vote closes
+    const topicFields = getRoundTopicFields(candidates, settings.timePerRound);
     
-    const { error: roundError } = await supabase
+    const { data: round, error: roundError } = await supabase
       .from('rounds')
       .insert({
         id: roundId,
         game_id: gameId,
         round_number: newRoundNumber,
         type: roundType,
-        topic: topicName,
-        topic_id: topicId,
-        start_time: new Date().toISOString(),
+        ...topicFields,
         end_time: null
-      });
+      })
+      .select()
+      .single();
 
     if (roundError) {
       throw roundError;
     }
 
-    // Update the game's current round
-    const { error: updateGameError } = await supabase
-      .from('games')
-      .update({ current_round: newRoundNumber })
-      .eq('id', gameId);
-
-    if (updateGameError) {
-      throw updateGameError;
+    // Update the game's current round, ending the reveal of the round before
+    const { transitioned } = game.status === 'reveal'
+      ? await transitionGame(gameId, 'reveal', 'round-active', { current_round: newRoundNumber })
+      : { transitioned: false };
+
+    // Otherwise only move the game to the new round, a game the host paused in
+    // the meantime resumes into it
+    if (!transitioned) {
+      const { error: updateGameError } = await supabase
+        .from('games')
+        .update({ current_round: newRoundNumber })
+        .eq('id', gameId);
+
+      if (updateGameError) {
+        throw updateGameError;
+      }
     }
 
+    await publishGameEvent(gameId, 'round_started', { round });
+
     return res.status(200).json({
       success: true,
       message: 'New round started successfully',
       roundId,
       roundNumber: newRoundNumber,
       roundType,
-      topic: topicName
+      topic: topicFields.topic,
+      topicCandidates: topicFields.topic_candidates,
+      voteDeadline: topicFields.vote_deadline,
+      deadline: topicFields.deadline
     });
   } catch (error) {
     console.error('Error starting new round:', error);
@@ -1,46 +1,13 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
-
-// Define topic interface
-interface Topic {
-  id: string;
-  name: string;
-  description: string;
-}
-
-interface TopicsCollection {
-  match: Topic[];
-  unmatch: Topic[];
-}
-
-// Define all game topics directly in this file
-const embeddedTopics: TopicsCollection = {
-  match: [
-    { id: 'animals', name: 'Animals', description: 'Think of animals from around the world' },
-    { id: 'countries', name: 'Countries', description: 'Name countries from any continent' },
-    { id: 'food', name: 'Food', description: 'List different types of food and dishes' },
-    { id: 'sports', name: 'Sports', description: 'Name sports played around the world' },
-    { id: 'movies', name: 'Movies', description: 'Think of movie titles from any genre or era' },
-    { id: 'professions', name: 'Professions', description: 'List different jobs and career paths' },
-    { id: 'cities', name: 'Cities', description: 'Name cities from around the world' },
-    { id: 'musical_instruments', name: 'Musical Instruments', description: 'List instruments used to make music' },
-    { id: 'hobbies', name: 'Hobbies', description: 'Think of activities people do for fun' },
-    { id: 'famous_people', name: 'Famous People', description: 'Name well-known celebrities, historical figures, or public personalities' }
-  ],
-  unmatch: [
-    { id: 'emotions', name: 'Emotions', description: 'List different feelings and emotional states' },
-    { id: 'colors', name: 'Colors', description: 'Name different colors and shades' },
-    { id: 'weather', name: 'Weather Phenomena', description: 'Think of different weather conditions and events' },
-    { id: 'body_parts', name: 'Body Parts', description: 'List different parts of the human body' },
-    { id: 'transportation', name: 'Transportation', description: 'Name different modes of transportation' },
-    { id: 'furniture', name: 'Furniture', description: 'Think of items found in homes and offices' },
-    { id: 'school_subjects', name: 'School Subjects', description: 'List academic subjects taught in schools' },
-    { id: 'clothing', name: 'Clothing Items', description: 'Name different articles of clothing' },
-    { id: 'nature', name: 'Nature', description: 'Think of natural elements, landscapes, and phenomena' },
-    { id: 'technology', name: 'Technology', description: 'List gadgets, devices, and technological concepts' }
-  ]
-};
+import { getScoringRule, syncRoundTypes } from '../../../lib/scoreCalculator';
+import { publishGameEvent } from '../../../lib/gameEvents';
+import { getGameSettings, getRoundPlanEntry } from '../../../lib/gameSettings';
+import { transitionGame } from '../../../lib/gameState';
+import { pickTopicForEntry } from '../../../lib/roundPlan';
+import { describeTopicFilter } from '../../../lib/topicFilter';
+import { getGameTopics } from '../../../lib/topicPacks';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -109,54 +76,76 @@ export default async function handler(
       return res.status(400).json({ error: 'At least 2 players are required to start the game' });
     }
 
-    // Determine the first round type (match or unmatch)
-    const firstRoundType = Math.random() < 0.5 ? 'match' : 'unmatch';
+    // Make sure every registered round type exists in the database
+    await syncRoundTypes();
+
+    // Determine the first round type from the game's round plan or round mix
+    const settings = getGameSettings(game);
+    const firstRound = getRoundPlanEntry(settings, 1);
+    const firstRoundType = firstRound.type;
+    const scoringRule = getScoringRule(firstRoundType);
+    if (!scoringRule) {
+      return res.status(500).json({ error: 'No round types are registered' });
+    }
     
-    // Select a random topic for the first round
-    const availableTopics = embeddedTopics[firstRoundType];
+    // Make sure the first round has a topic in the game's topic packs and topic filter
+    // before the game leaves the lobby
+    const gameTopics = await getGameTopics(game.topic_pack_ids);
+    const availableTopics = gameTopics[scoringRule.topicPool];
     if (!availableTopics || availableTopics.length === 0) {
       console.error('No topics available for type:', firstRoundType);
       return res.status(500).json({ error: 'No topics available for the selected round type' });
     }
     
-    const randomTopicIndex = Math.floor(Math.random() * availableTopics.length);
-    const firstTopic = availableTopics[randomTopicIndex];
+    const firstTopic = pickTopicForEntry(availableTopics, firstRound, [], settings.topicFilter);
+    if (!firstTopic) {
+      console.error('No topic matches the round plan entry:', firstRound);
+      return res.status(400).json({
+        error: `No ${firstRoundType} topics match the game's topic filter (${describeTopicFilter(settings.topicFilter)})`,
+      });
+    }
     
-    console.log("Selected topic:", firstTopic);
+    console.log("First round can use topic:", firstTopic);
 
-    // Update game status to in-progress
-    const { error: updateError } = await supabase
-      .from('games')
-      .update({ status: 'in-progress' })
-      .eq('id', gameId);
+    // Move the game out of the lobby, only one start request gets past this
+    const { transitioned } = await transitionGame(gameId, 'lobby', 'round-active');
 
-    if (updateError) {
-      console.error('Error updating game status:', updateError);
-      return res.status(500).json({ error: 'Failed to update game status' });
+    if (!transitioned) {
+      return res.status(400).json({ error: 'Game has already started' });
     }
 
     // Start the first round
-    const response = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || ''}/api/games/start-round`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        gameId,
-        playerId, // Use the playerId from the request body
-        currentRoundNumber: 1, // This is the first round
-        roundType: firstRoundType,
-        // Use embedded topics directly instead of fetching from an API
-        topicId: embeddedTopics[firstRoundType][randomTopicIndex].id,
-      }),
-    });
+    let response: Response;
+    try {
+      response = await fetch(`${process.env.NEXT_PUBLIC_BASE_URL || ''}/api/games/start-round`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameId,
+          playerId, // Use the playerId from the request body
+          currentRoundNumber: 1, // This is the first round
+          roundType: firstRoundType,
+          // A topic fixed in the round plan, otherwise the players vote on the first topic
+          topicId: firstRound.topicId,
+        }),
+      });
+    } catch (fetchError) {
+      console.error('Error starting round:', fetchError);
+      await returnToLobby(gameId);
+      return res.status(500).json({ error: 'Failed to start the first round' });
+    }
 
     if (!response.ok) {
-      const errorData = await response.json();
-      console.error('Error starting round:', errorData);
+      console.error('Error starting round:', response.status, await response.text());
+      await returnToLobby(gameId);
       return res.status(response.status).json({ error: 'Failed to start the first round' });
     }
 
+    // Sent once the first round exists, so players land on a game page with a round to load
+    await publishGameEvent(gameId, 'game_started', { gameId });
+
     return res.status(200).json({
       success: true,
       message: 'Game started successfully',
@@ -166,3 +155,40 @@ export default async function handler(
     return res.status(500).json({ error: 'Failed to start game' });
   }
 }
+
+/**
+ * Put a game whose first round could not be created back in the lobby
+ *
+ * The state machine has no way back to the lobby, so the status is reset
+ * directly, and only while the game has no round. The host can then start
+ * the game again.
+ */
+async function returnToLobby(gameId: string): Promise<void> {
+  const { count, error: countError } = await supabase
+    .from('rounds')
+    .select('*', { count: 'exact', head: true })
+    .eq('game_id', gameId);
+
+  if (countError) {
+    console.error('Error checking the rounds of a game that failed to start:', countError);
+    return;
+  }
+
+  // The round was created after all, the game goes on
+  if (count) {
+    return;
+  }
+
+  const { error: resetError } = await supabase
+    .from('games')
+    .update({ status: 'lobby' })
+    .eq('id', gameId)
+    .eq('status', 'round-active');
+
+  if (resetError) {
+    console.error('Error returning the game to the lobby:', resetError);
+    return;
+  }
+
+  await publishGameEvent(gameId, 'game_status_changed', { gameId, status: 'lobby' });
+}
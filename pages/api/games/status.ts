@@ -0,0 +1,90 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import {
+  abandonGame,
+  GameTransition,
+  HOST_GAME_ACTIONS,
+  HostGameAction,
+  pauseGame,
+  resumeGame
+} from '../../../lib/gameState';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// How each host action changes the game's status
+const HOST_ACTION_HANDLERS: Record<HostGameAction, (gameId: string) => Promise<GameTransition>> = {
+  pause: pauseGame,
+  resume: resumeGame,
+  abandon: abandonGame
+};
+
+/**
+ * Pause, resume or abandon a game
+ *
+ * POST { gameId, playerId, action: 'pause' | 'resume' | 'abandon' }
+ * Only the host can change the game's status. Pausing stops the current round's
+ * timers, which continue from where they stopped when the game resumes.
+ * Abandoning ends the game for good, keeping the scores so far.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, playerId, action } = req.body;
+
+    if (!gameId || !playerId || !action) {
+      return res.status(400).json({ error: 'Game ID, player ID, and action are required' });
+    }
+
+    if (!HOST_GAME_ACTIONS.includes(action)) {
+      return res.status(400).json({
+        error: 'Invalid action',
+        details: [`action must be one of: ${HOST_GAME_ACTIONS.join(', ')}`]
+      });
+    }
+
+    // Check if the player is the host
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('is_host')
+      .eq('id', playerId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (playerError || !player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    if (!player.is_host) {
+      return res.status(403).json({ error: 'Only the host can change the game status' });
+    }
+
+    const { transitioned, status, error } = await HOST_ACTION_HANDLERS[action as HostGameAction](gameId);
+
+    if (!status) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    if (error) {
+      return res.status(409).json({ error });
+    }
+
+    return res.status(200).json({
+      success: true,
+      status,
+      alreadyChanged: !transitioned,
+    });
+  } catch (error) {
+    console.error('Error changing game status:', error);
+    return res.status(500).json({ error: 'Failed to change game status' });
+  }
+}
@@ -0,0 +1,123 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { getGameSettings } from '../../../lib/gameSettings';
+import { checkRoundActive } from '../../../lib/gameState';
+import { isRoundOpenForSubmissions, publishSubmissionCounts, validateSubmission } from '../../../lib/submissions';
+import { DEFAULT_NORMALIZERS } from '../../../lib/wordNormalizer';
+import { publishGameEvent } from '../../../lib/gameEvents';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Submit or revise a player's words for a round
+ *
+ * POST { gameId, roundId, playerId, words, lockIn }
+ * The player must belong to the game and the round must be open and within its
+ * deadline. Words are checked against the game's word limit and the maximum word
+ * length, then replace the player's drafts and earlier words in one operation.
+ * Players can submit again until they lock in, which makes their words final.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, roundId, playerId, words, lockIn = false } = req.body;
+
+    if (!gameId || !roundId || !playerId) {
+      return res.status(400).json({ error: 'Game ID, round ID, and player ID are required' });
+    }
+
+    if (typeof lockIn !== 'boolean') {
+      return res.status(400).json({ error: 'lockIn must be a boolean' });
+    }
+
+    // Check that the player belongs to the game
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('id')
+      .eq('id', playerId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (playerError || !player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    const { data: round, error: roundError } = await supabase
+      .from('rounds')
+      .select('id, start_time, end_time, deadline, adjudication_deadline')
+      .eq('id', roundId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (roundError || !round) {
+      return res.status(404).json({ error: 'Round not found' });
+    }
+
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('status, time_per_round, words_per_round, normalizers')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    const statusError = checkRoundActive(game.status, 'submit words');
+    if (statusError) {
+      return res.status(409).json({ error: statusError });
+    }
+
+    const settings = getGameSettings(game);
+
+    if (!isRoundOpenForSubmissions(round, settings.timePerRound)) {
+      return res.status(409).json({ error: 'This round is not taking submissions' });
+    }
+
+    const { words: validWords, errors } = validateSubmission(words, {
+      wordsPerRound: settings.wordsPerRound,
+      normalizers: game.normalizers || DEFAULT_NORMALIZERS
+    });
+
+    if (!validWords) {
+      return res.status(400).json({ error: 'Invalid words', details: errors });
+    }
+
+    const { data: saved, error: saveError } = await supabase.rpc('replace_submissions', {
+      p_round_id: roundId,
+      p_player_id: playerId,
+      p_words: validWords,
+      p_lock_in: lockIn
+    });
+
+    if (saveError) {
+      throw saveError;
+    }
+
+    if (!saved) {
+      return res.status(409).json({ error: 'Words are already locked in for this round' });
+    }
+
+    await publishGameEvent(gameId, 'words_submitted', { roundId, playerId, lockedIn: lockIn });
+    await publishSubmissionCounts(gameId, roundId);
+
+    return res.status(200).json({
+      success: true,
+      words: validWords,
+      lockedIn: lockIn
+    });
+  } catch (error) {
+    console.error('Error submitting words:', error);
+    return res.status(500).json({ error: 'Failed to submit words' });
+  }
+}
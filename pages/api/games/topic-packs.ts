@@ -0,0 +1,105 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { getGameSettings } from '../../../lib/gameSettings';
+import { validateRoundPlan } from '../../../lib/roundPlan';
+import { getTopicPacks, mergeTopicPacks } from '../../../lib/topicPacks';
+import { validateTopics } from '../../../lib/topicRegistry';
+import { getStoredTopics } from '../../../lib/topicStore';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, playerId, topicPackIds } = req.body;
+
+    if (!gameId || !playerId || !Array.isArray(topicPackIds)) {
+      return res.status(400).json({ error: 'Game ID, player ID, and topic pack IDs are required' });
+    }
+
+    // Check if the player is the host
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('*')
+      .eq('id', playerId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (playerError || !player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    if (!player.is_host) {
+      return res.status(403).json({ error: 'Only the host can choose topic packs' });
+    }
+
+    // Get the game
+    const { data: game, error: gameError } = await supabase
+      .from('games')
+      .select('*')
+      .eq('id', gameId)
+      .single();
+
+    if (gameError || !game) {
+      return res.status(404).json({ error: 'Game not found' });
+    }
+
+    if (game.status !== 'lobby') {
+      return res.status(400).json({ error: 'Topic packs can only be changed before the game starts' });
+    }
+
+    // Make sure every requested pack exists
+    const packIds: string[] = Array.from(new Set(topicPackIds.map(String)));
+    const packs = await getTopicPacks(packIds);
+
+    if (packs.length !== packIds.length) {
+      const missingIds = packIds.filter(packId => !packs.some(pack => pack.id === packId));
+      return res.status(400).json({ error: `Unknown topic packs: ${missingIds.join(', ')}` });
+    }
+
+    // Packs are validated on upload, but two packs may still share a topic id
+    const gameTopics = mergeTopicPacks(packs, await getStoredTopics());
+    const topicErrors = validateTopics(gameTopics);
+
+    if (topicErrors.length > 0) {
+      return res.status(400).json({ error: 'These topic packs cannot be combined', details: topicErrors });
+    }
+
+    // The round plan may only use topics that are still available
+    const { errors: planErrors } = validateRoundPlan(getGameSettings(game).roundPlan, gameTopics);
+
+    if (planErrors.length > 0) {
+      return res.status(400).json({ error: 'The round plan uses topics outside these topic packs', details: planErrors });
+    }
+
+    // Save the packs on the game
+    const { data: updatedGame, error: updateError } = await supabase
+      .from('games')
+      .update({ topic_pack_ids: packIds })
+      .eq('id', gameId)
+      .select()
+      .single();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    return res.status(200).json({
+      success: true,
+      game: updatedGame,
+    });
+  } catch (error) {
+    console.error('Error updating topic packs:', error);
+    return res.status(500).json({ error: 'Failed to update topic packs' });
+  }
+}
@@ -0,0 +1,118 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { closeTopicVote, TopicCandidate } from '../../../lib/topicVote';
+import { checkRoundActive, getGameStatus } from '../../../lib/gameState';
+import { publishGameEvent } from '../../../lib/gameEvents';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Vote for one of a round's candidate topics
+ *
+ * Voting again changes the player's vote. Once every player in the game has
+ * voted, the vote closes straight away instead of waiting for its deadline.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { gameId, roundId, playerId, topicId } = req.body;
+
+    if (!gameId || !roundId || !playerId || !topicId) {
+      return res.status(400).json({ error: 'Game ID, round ID, player ID, and topic ID are required' });
+    }
+
+    // Check that the player belongs to the game
+    const { data: player, error: playerError } = await supabase
+      .from('players')
+      .select('id')
+      .eq('id', playerId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (playerError || !player) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+
+    // Get the round and its candidate topics
+    const statusError = checkRoundActive(await getGameStatus(gameId), 'vote on topics');
+    if (statusError) {
+      return res.status(409).json({ error: statusError });
+    }
+
+    const { data: round, error: roundError } = await supabase
+      .from('rounds')
+      .select('id, topic_id, topic_candidates, vote_deadline')
+      .eq('id', roundId)
+      .eq('game_id', gameId)
+      .single();
+
+    if (roundError || !round) {
+      return res.status(404).json({ error: 'Round not found' });
+    }
+
+    const candidates: TopicCandidate[] = round.topic_candidates || [];
+
+    if (candidates.length === 0) {
+      return res.status(400).json({ error: 'This round has no topic vote' });
+    }
+
+    if (round.topic_id || new Date(round.vote_deadline).getTime() <= Date.now()) {
+      return res.status(409).json({ error: 'Voting for this round has closed' });
+    }
+
+    if (!candidates.some(candidate => candidate.id === topicId)) {
+      return res.status(400).json({ error: 'Topic is not one of the candidates for this round' });
+    }
+
+    const { error: voteError } = await supabase
+      .from('topic_votes')
+      .upsert({
+        game_id: gameId,
+        round_id: roundId,
+        player_id: playerId,
+        topic_id: topicId,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'round_id,player_id' });
+
+    if (voteError) {
+      throw voteError;
+    }
+
+    await publishGameEvent(gameId, 'topic_vote_cast', {
+      vote: { round_id: roundId, player_id: playerId, topic_id: topicId }
+    });
+
+    // Close the vote early once every player has voted
+    const [{ count: playerCount, error: countError }, { count: voteCount, error: voteCountError }] = await Promise.all([
+      supabase.from('players').select('*', { count: 'exact', head: true }).eq('game_id', gameId),
+      supabase.from('topic_votes').select('*', { count: 'exact', head: true }).eq('round_id', roundId)
+    ]);
+
+    if (countError || voteCountError) {
+      throw countError || voteCountError;
+    }
+
+    const everyoneVoted = !!playerCount && (voteCount || 0) >= playerCount;
+    if (everyoneVoted) {
+      await closeTopicVote(roundId);
+    }
+
+    return res.status(200).json({
+      success: true,
+      voteClosed: everyoneVoted,
+    });
+  } catch (error) {
+    console.error('Error voting for topic:', error);
+    return res.status(500).json({ error: 'Failed to vote for topic' });
+  }
+}
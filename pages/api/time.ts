@@ -0,0 +1,21 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+/**
+ * Get the server's current time, for clients to correct their clocks
+ *
+ * GET
+ * Returns { serverTime } in milliseconds since the epoch. Responses are never
+ * cached, a stale time would skew every client that reads it.
+ */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow GET requests
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(200).json({ serverTime: Date.now() });
+}
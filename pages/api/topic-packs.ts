@@ -0,0 +1,103 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { TopicPack, validateTopicPack } from '../../lib/topicPacks';
+import { getStoredTopics } from '../../lib/topicStore';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * List, validate and upload topic packs
+ *
+ * GET returns every uploaded pack. POST takes `{ pack, validateOnly }`,
+ * validates the pack and, unless validateOnly is set, saves it. Packs cannot
+ * be replaced, so uploading a pack with an existing id returns 409.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    // Handle GET request
+    if (req.method === 'GET') {
+      const { data, error } = await supabase
+        .from('topic_packs')
+        .select('id, name, description, version, topics')
+        .order('name');
+
+      if (error) {
+        throw error;
+      }
+
+      return res.status(200).json({ packs: (data || []) as TopicPack[] });
+    }
+
+    // Only allow GET and POST requests
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    const { pack: requestedPack, validateOnly } = req.body;
+
+    if (!requestedPack) {
+      return res.status(400).json({ error: 'Topic pack is required' });
+    }
+
+    // Check the pack against every stored topic, archived ones included
+    const { pack, errors } = validateTopicPack(requestedPack, await getStoredTopics(true));
+
+    if (!pack) {
+      return res.status(400).json({ error: 'Invalid topic pack', details: errors });
+    }
+
+    // Packs may be attached to other hosts' games, so never overwrite one
+    const { data: existingPack, error: existingError } = await supabase
+      .from('topic_packs')
+      .select('id')
+      .eq('id', pack.id)
+      .maybeSingle();
+
+    if (existingError) {
+      throw existingError;
+    }
+
+    if (existingPack) {
+      return res.status(409).json({ error: `A topic pack with id "${pack.id}" already exists` });
+    }
+
+    if (validateOnly) {
+      return res.status(200).json({ success: true, valid: true, pack });
+    }
+
+    const { data: savedPack, error: saveError } = await supabase
+      .from('topic_packs')
+      .insert({
+        id: pack.id,
+        name: pack.name,
+        description: pack.description || null,
+        version: pack.version,
+        topics: pack.topics,
+      })
+      .select('id, name, description, version, topics')
+      .single();
+
+    if (saveError) {
+      // Another upload took the id first
+      if (saveError.code === UNIQUE_VIOLATION) {
+        return res.status(409).json({ error: `A topic pack with id "${pack.id}" already exists` });
+      }
+
+      throw saveError;
+    }
+
+    return res.status(201).json({ success: true, pack: savedPack });
+  } catch (error) {
+    console.error('Error handling topic packs:', error);
+    return res.status(500).json({ error: 'Failed to handle topic packs' });
+  }
+}
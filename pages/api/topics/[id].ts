@@ -0,0 +1,81 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { isAdminRequest } from '../../../lib/adminAuth';
+import { TopicRow } from '../../../lib/topicRegistry';
+import { TOPIC_COLUMNS, validateTopicInput } from '../../../lib/topicStore';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Read, update and archive a single topic (admin only)
+ *
+ * GET returns the topic, PATCH updates the fields sent in the body and DELETE
+ * archives the topic. Archived topics stay in the table so that old rounds
+ * can still look them up; PATCH `{ active: true }` restores one.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const topicId = String(req.query.id);
+
+    const { data: currentTopic, error: topicError } = await supabase
+      .from('topics')
+      .select(TOPIC_COLUMNS)
+      .eq('id', topicId)
+      .maybeSingle();
+
+    if (topicError) {
+      throw topicError;
+    }
+
+    if (!currentTopic) {
+      return res.status(404).json({ error: 'Topic not found' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ topic: currentTopic });
+    }
+
+    // Archiving only clears the active flag
+    let changes: Partial<TopicRow> = { active: false };
+
+    if (req.method === 'PATCH') {
+      const { topic, errors } = validateTopicInput(req.body, currentTopic as TopicRow);
+
+      if (!topic) {
+        return res.status(400).json({ error: 'Invalid topic', details: errors });
+      }
+
+      changes = topic;
+    }
+
+    const { data: updatedTopic, error: updateError } = await supabase
+      .from('topics')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', topicId)
+      .select(TOPIC_COLUMNS)
+      .single();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    return res.status(200).json({ success: true, topic: updatedTopic });
+  } catch (error) {
+    console.error('Error updating topic:', error);
+    return res.status(500).json({ error: 'Failed to update topic' });
+  }
+}
@@ -0,0 +1,89 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { isAdminRequest } from '../../../lib/adminAuth';
+import { getStoredTopics, TOPIC_COLUMNS, validateTopicInput } from '../../../lib/topicStore';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * List and create topics
+ *
+ * GET returns the active topics grouped by pool. Admins can pass
+ * `?includeArchived=true` to also see archived topics. POST creates a topic
+ * and is admin only.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  // Handle OPTIONS request for CORS preflight
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Handle GET request
+    if (req.method === 'GET') {
+      const includeArchived = req.query.includeArchived === 'true';
+
+      if (includeArchived && !isAdminRequest(req)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      return res.status(200).json(await getStoredTopics(includeArchived));
+    }
+
+    // Only allow GET and POST requests
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (!isAdminRequest(req)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { topic, errors } = validateTopicInput(req.body);
+
+    if (!topic) {
+      return res.status(400).json({ error: 'Invalid topic', details: errors });
+    }
+
+    // Topic ids are shared by both pools, so check them all
+    const { data: existingTopic, error: existingError } = await supabase
+      .from('topics')
+      .select('id')
+      .eq('id', topic.id)
+      .maybeSingle();
+
+    if (existingError) {
+      throw existingError;
+    }
+
+    if (existingTopic) {
+      return res.status(409).json({ error: `A topic with id "${topic.id}" already exists` });
+    }
+
+    const { data: createdTopic, error: createError } = await supabase
+      .from('topics')
+      .insert(topic)
+      .select(TOPIC_COLUMNS)
+      .single();
+
+    if (createError) {
+      throw createError;
+    }
+
+    return res.status(201).json({ success: true, topic: createdTopic });
+  } catch (error) {
+    console.error('Error handling topics:', error);
+    return res.status(500).json({ error: 'Failed to handle topics' });
+  }
+}
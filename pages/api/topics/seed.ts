@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createClient } from '@supabase/supabase-js';
+import { topics as seedTopics } from '../../../data/topics';
+import { isAdminRequest } from '../../../lib/adminAuth';
+import { TOPIC_POOLS, toTopicRow } from '../../../lib/topicRegistry';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Seed the topics table from data/topics.json (admin only)
+ *
+ * Topics that already exist are left alone, so running the seed again never
+ * overwrites changes made through the admin routes or restores archived topics.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  // Only allow POST requests
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const rows = TOPIC_POOLS.flatMap(pool => seedTopics[pool].map(topic => toTopicRow(topic, pool)));
+
+    const { data: insertedTopics, error } = await supabase
+      .from('topics')
+      .upsert(rows, { onConflict: 'id', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    return res.status(200).json({
+      success: true,
+      insertedTopicIds: (insertedTopics || []).map(topic => topic.id),
+    });
+  } catch (error) {
+    console.error('Error seeding topics:', error);
+    return res.status(500).json({ error: 'Failed to seed topics' });
+  }
+}
@@ -3,6 +3,32 @@ import { useRouter } from 'next/router';
 import Head from 'next/head';
 import { createClient } from '@supabase/supabase-js';
 import Link from 'next/link';
+import { getScoringRule, getStoredRoundScores, PlayerScores } from '../../lib/scoreCalculator';
+import { DEFAULT_GAME_SETTINGS, DictionaryCheck } from '../../lib/gameSettings';
+import { getTopicDictionary } from '../../lib/dictionaryManager';
+import { createDictionaryValidator } from '../../lib/topicDictionary';
+import { MIN_SUGGESTION_QUERY_LENGTH } from '../../lib/wordSuggestions';
+import { MAX_WORD_LENGTH } from '../../lib/submissions';
+import { buildRoundReveal } from '../../lib/roundReveal';
+import { tallyTopicVotes, TopicCandidate, TopicVote } from '../../lib/topicVote';
+import { useGameEvents } from '../../hooks/useGameEvents';
+import { useClockSync } from '../../hooks/useClockSync';
+import { getServerTime } from '../../lib/clockSync';
+import {
+  canPause,
+  GAME_STATUS_LABELS,
+  GameStatus,
+  HostGameAction,
+  isGameOver,
+  isGameStarted
+} from '../../lib/gameState';
+import {
+  Adjudication,
+  AdjudicationAction,
+  AdjudicationVote,
+  ContestableWord,
+  isAdjudicationOpen
+} from '../../lib/adjudication';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -13,8 +39,26 @@ const supabase = supabaseUrl && supabaseAnonKey
   ? createClient(supabaseUrl, supabaseAnonKey)
   : null;
 
-// Time per round in seconds
-const ROUND_TIME = 60;
+// Fallback time per round in seconds, for rounds created before deadlines were stored
+const DEFAULT_ROUND_TIME = DEFAULT_GAME_SETTINGS.timePerRound;
+
+// Delay before the host closes a round whose deadline has passed, in milliseconds
+const DEADLINE_GRACE_MS = 3000;
+
+// Delay before the host closes a topic vote whose deadline has passed, in milliseconds
+const VOTE_GRACE_MS = 1000;
+
+// Delay before the host starts the next round once the reveal timer has run out, in milliseconds
+const REVEAL_GRACE_MS = 1000;
+
+// Delay before the host scores a round whose adjudication deadline has passed, in milliseconds
+const ADJUDICATION_GRACE_MS = 1000;
+
+// Pause in typing before spelling suggestions are fetched, in milliseconds
+const SUGGESTION_DELAY_MS = 250;
+
+// Pause in typing before the words are saved as drafts, in milliseconds
+const DRAFT_SAVE_DELAY_MS = 2000;
 
 // Define types for our data structures
 interface Player {
@@ -31,9 +75,13 @@ interface Player {
 interface Game {
   id: string;
   code: string;
-  status: 'lobby' | 'active' | 'completed';
+  status: GameStatus;
   current_round: number;
   round_count: number;
+  time_per_round: number;
+  words_per_round: number;
+  normalizers: string[] | null;
+  dictionary_check: DictionaryCheck | null;
   created_at: string;
 }
 
@@ -41,14 +89,76 @@ interface Round {
   id: string;
   game_id: string;
   round_number: number;
-  type: 'match' | 'unmatch';
-  topic: string;
-  topic_id: string;
-  start_time: string;
+  type: string; // a round type registered in lib/scoreCalculator.ts
+  topic: string | null; // null while players vote on the topic
+  topic_id: string | null;
+  topic_candidates: TopicCandidate[] | null; // topics players vote on before the round starts
+  vote_deadline: string | null;
+  start_time: string | null; // set once the round's topic is known
+  deadline: string | null; // set by the server from the game's time_per_round
   end_time: string | null;
+  reveal_deadline: string | null; // results are shown until the host advances or this passes
+  adjudication_deadline: string | null; // set once submissions close in games with adjudication
+  adjudication_words: ContestableWord[] | null; // the words players can strike or merge
   is_completed: boolean;
 }
 
+interface RoundTopicVote extends TopicVote {
+  round_id: string;
+}
+
+/**
+ * Get the number of seconds left before a round's server deadline
+ *
+ * Countdowns read the server's time, so skewed device clocks still show the same time left.
+ */
+function getSecondsLeft(round: Round): number {
+  const deadline = round.deadline
+    ? new Date(round.deadline).getTime()
+    : new Date(round.start_time || 0).getTime() + DEFAULT_ROUND_TIME * 1000;
+  return Math.max(0, Math.ceil((deadline - getServerTime()) / 1000));
+}
+
+/**
+ * Check whether players are still voting on a round's topic
+ */
+function isTopicVoteOpen(round: Round): boolean {
+  return !!round.topic_candidates?.length && !round.topic_id && !round.end_time;
+}
+
+/**
+ * Get the number of seconds left before a round's reveal ends
+ */
+function getRevealSecondsLeft(round: Round): number | null {
+  if (!round.reveal_deadline) return null;
+  return Math.max(0, Math.ceil((new Date(round.reveal_deadline).getTime() - getServerTime()) / 1000));
+}
+
+/**
+ * Check whether a round is waiting for its adjudication to close before it is scored
+ */
+function isAwaitingAdjudication(round: Round): boolean {
+  return !!round.adjudication_deadline && !round.end_time;
+}
+
+/**
+ * Get the number of seconds left before a round's adjudication closes
+ */
+function getAdjudicationSecondsLeft(round: Round): number {
+  const now = getServerTime();
+  return isAdjudicationOpen(round, new Date(now))
+    ? Math.ceil((new Date(round.adjudication_deadline || 0).getTime() - now) / 1000)
+    : 0;
+}
+
+/**
+ * Get the number of seconds left before a round's topic vote closes
+ */
+function getVoteSecondsLeft(round: Round): number {
+  const voteDeadline = new Date(round.vote_deadline || 0).getTime();
+  return Math.max(0, Math.ceil((voteDeadline - getServerTime()) / 1000));
+}
+
 interface Submission {
   id: string;
   player_id: string;
@@ -56,6 +166,7 @@ interface Submission {
   word: string;
   submitted_at: string;
   is_final: boolean;
+  locked_in: boolean;
 }
 
 export default function Game() {
@@ -75,6 +186,7 @@ export default function Game() {
   const [newWord, setNewWord] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [hasSubmitted, setHasSubmitted] = useState(false);
+  const [isLockedIn, setIsLockedIn] = useState(false); // submitted words can no longer change
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setLoading] = useState(true);
   const [allPlayersSubmitted, setAllPlayersSubmitted] = useState(false);
@@ -83,104 +195,124 @@ export default function Game() {
   const [isRoundActive, setIsRoundActive] = useState(false);
   const [roundEnded, setRoundEnded] = useState(false);
   const [startingRound, setStartingRound] = useState(false);
+  const [topicVotes, setTopicVotes] = useState<RoundTopicVote[]>([]);
+  const [voteTimeLeft, setVoteTimeLeft] = useState<number | null>(null);
+  const [isVoting, setIsVoting] = useState(false); // sending this player's vote
+  const [roundResults, setRoundResults] = useState<PlayerScores | null>(null);
+  const [revealTimeLeft, setRevealTimeLeft] = useState<number | null>(null);
+  const [adjudications, setAdjudications] = useState<Adjudication[]>([]);
+  const [adjudicationVotes, setAdjudicationVotes] = useState<AdjudicationVote[]>([]);
+  const [selectedWords, setSelectedWords] = useState<string[]>([]); // words picked to strike or merge
+  const [adjudicationTimeLeft, setAdjudicationTimeLeft] = useState<number | null>(null);
+  const [isAdjudicating, setIsAdjudicating] = useState(false); // sending a proposal or vote
+  const [isChangingStatus, setIsChangingStatus] = useState(false); // the host is pausing, resuming or ending the game
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [suggestionInput, setSuggestionInput] = useState<number | null>(null); // input showing the suggestions
+  const [activeSuggestion, setActiveSuggestion] = useState(-1); // suggestion highlighted with the arrow keys
   
   // Refs
   const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const autoSaveRef = useRef<NodeJS.Timeout | null>(null);
-  const listenersSetup = useRef(false);
+  const suggestionTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const suggestionQueryRef = useRef(''); // latest query, to drop stale suggestion responses
+  const savedDraftRef = useRef(''); // words last saved as drafts, to skip saving them again
+  const restoredWordsRef = useRef<{ roundId: string; words: string[] } | null>(null); // words loaded after a refresh
+
+  // Offset between this device's clock and the server's, the round timer restarts when it changes
+  const clockSample = useClockSync();
+
+  // Restore the player's submitted or draft words in a round, after a refresh
+  const restoreSubmissions = (
+    roundId: string,
+    submissions: Pick<Submission, 'word' | 'is_final' | 'locked_in'>[],
+    wordCount: number
+  ): void => {
+    const finalWords = submissions.filter(s => s.is_final).map(s => s.word);
+    const draftWords = submissions.filter(s => !s.is_final).map(s => s.word);
+    const inputWords = finalWords.length > 0 ? finalWords : draftWords;
+
+    setHasSubmitted(finalWords.length > 0);
+    setSubmittedWords(finalWords);
+    setIsLockedIn(submissions.some(s => s.is_final && s.locked_in));
+    savedDraftRef.current = JSON.stringify(draftWords);
+
+    // Submitted words stay in the inputs, so they can be revised until the player locks in
+    if (inputWords.length > 0) {
+      restoredWordsRef.current = { roundId, words: inputWords };
+      setWords(Array.from({ length: wordCount }, (_, index) => inputWords[index] || ''));
+    }
+  };
+
+  // Reload the player's submitted words, after they submit from another tab
+  const loadSubmittedWords = async (roundId: string): Promise<void> => {
+    if (!supabase || !playerId) return;
 
-  // Function to set up real-time listeners
-  const setupRealtimeListeners = (gameId: string, playerIdParam: string) => {
-    if (!supabase || !gameId) {
-      console.error('Cannot set up listeners: supabase client or gameId is missing');
+    const { data: submissionsData, error: submissionsError } = await supabase
+      .from('submissions')
+      .select('word, locked_in')
+      .eq('round_id', roundId)
+      .eq('player_id', playerId)
+      .eq('is_final', true)
+      .order('submitted_at');
+
+    if (submissionsError) {
+      console.error('Error fetching submissions:', submissionsError);
       return;
     }
-    
-    console.log('Setting up real-time listeners for game:', gameId);
-    
-    // Listen for game updates
-    const gameChannel = supabase
-      .channel('game_updates')
-      .on('postgres_changes', {
-        event: 'UPDATE',
-        schema: 'public',
-        table: 'games',
-        filter: `id=eq.${gameId}`
-      }, (payload) => {
-        console.log('Game updated:', payload);
-        setGame(payload.new as Game);
-        
-        // If game is completed, redirect to scoreboard
-        if (payload.new.status === 'completed') {
-          router.push(`/scoreboard/${code}`);
-        }
-      })
-      .subscribe();
-      
-    // Listen for round updates
-    const roundChannel = supabase
-      .channel('round_updates')
-      .on('postgres_changes', {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'rounds',
-        filter: `game_id=eq.${gameId}`
-      }, (payload) => {
-        console.log('New round created:', payload);
-        const newRound = payload.new as Round;
-        setCurrentRound(newRound);
-        setRoundEnded(false);
-        setIsRoundActive(true);
-        setHasSubmitted(false);
-        setSubmittedWords([]);
-        setWords(['', '', '', '', '']);
-        
-        // Reset timer
-        const now = new Date().getTime();
-        const startTime = new Date(newRound.start_time).getTime();
-        const elapsed = Math.floor((now - startTime) / 1000);
-        const remaining = Math.max(0, ROUND_TIME - elapsed);
-        setTimeLeft(remaining);
-      })
-      .on('postgres_changes', {
-        event: 'UPDATE',
-        schema: 'public',
-        table: 'rounds',
-        filter: `game_id=eq.${gameId}`
-      }, (payload) => {
-        console.log('Round updated:', payload);
-        const updatedRound = payload.new as Round;
-        setCurrentRound(updatedRound);
-        
-        if (updatedRound.end_time) {
-          setRoundEnded(true);
-          setIsRoundActive(false);
-          setTimeLeft(0);
-        }
-      })
-      .subscribe();
-      
-    // Listen for submission updates
-    const submissionChannel = supabase
-      .channel('submission_updates')
-      .on('postgres_changes', {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'submissions',
-        filter: `player_id=eq.${playerIdParam}`
-      }, (payload) => {
-        console.log('New submission:', payload);
-        // Update submitted words if this is for the current player
-        const submission = payload.new as Submission;
-        if (submission.player_id === playerIdParam) {
-          setSubmittedWords(prev => [...prev, submission.word]);
-        }
-      })
-      .subscribe();
-      
-    // Store channel references for cleanup
-    return { gameChannel, roundChannel, submissionChannel };
+
+    setHasSubmitted(true);
+    setSubmittedWords((submissionsData || []).map(s => s.word));
+    setIsLockedIn((submissionsData || []).some(s => s.locked_in));
+  };
+
+  // Load the proposals and votes of a round's adjudication
+  const loadAdjudications = async (roundId: string): Promise<void> => {
+    if (!supabase) return;
+
+    const { data: adjudicationsData, error: adjudicationsError } = await supabase
+      .from('word_adjudications')
+      .select('*')
+      .eq('round_id', roundId)
+      .order('created_at');
+
+    if (adjudicationsError) {
+      console.error('Error fetching adjudications:', adjudicationsError);
+      return;
+    }
+
+    const adjudicationIds = (adjudicationsData || []).map(adjudication => adjudication.id);
+    const { data: votesData, error: votesError } = await supabase
+      .from('adjudication_votes')
+      .select('adjudication_id, player_id, approve')
+      .in('adjudication_id', adjudicationIds);
+
+    if (votesError) {
+      console.error('Error fetching adjudication votes:', votesError);
+    }
+
+    setAdjudications(prev => [...prev.filter(a => a.round_id !== roundId), ...(adjudicationsData || [])]);
+    setAdjudicationVotes(prev => [
+      ...prev.filter(v => !adjudicationIds.includes(v.adjudication_id)),
+      ...(votesData || [])
+    ]);
+  };
+
+  // Load the votes already cast for a round's topic vote
+  const loadTopicVotes = async (roundId: string): Promise<void> => {
+    if (!supabase) return;
+
+    const { data: votesData, error: votesError } = await supabase
+      .from('topic_votes')
+      .select('round_id, player_id, topic_id')
+      .eq('round_id', roundId);
+
+    if (votesError) {
+      console.error('Error fetching topic votes:', votesError);
+      return;
+    }
+
+    setTopicVotes(prev => [...prev.filter(v => v.round_id !== roundId), ...(votesData || [])]);
   };
 
   // Load game data
@@ -257,8 +389,8 @@ export default function Game() {
       
       setPlayers(playersData || []);
       
-      // Get current round if game is in progress
-      if (gameData.status === 'in-progress' && gameData.current_round > 0) {
+      // Get current round once the game has started
+      if (isGameStarted(gameData.status) && gameData.current_round > 0) {
         const { data: roundData, error: roundError } = await supabase
           .from('rounds')
           .select('*')
@@ -280,40 +412,37 @@ export default function Game() {
         if (roundData) {
           setCurrentRound(roundData);
           
-          // Check if player has already submitted words
+          // Check if player has already submitted words, or restore their drafts
           const { data: submissionsData, error: submissionsError } = await supabase
             .from('submissions')
-            .select('word')
+            .select('word, is_final, locked_in')
             .eq('round_id', roundData.id)
-            .eq('player_id', storedPlayerId);
+            .eq('player_id', storedPlayerId)
+            .order('submitted_at');
             
           if (submissionsError) {
             console.error('Error fetching submissions:', submissionsError);
           }
           
-          if (submissionsData && submissionsData.length > 0) {
-            setHasSubmitted(true);
-            setSubmittedWords(submissionsData.map(s => s.word));
-          }
+          restoreSubmissions(
+            roundData.id,
+            submissionsData || [],
+            gameData.words_per_round || DEFAULT_GAME_SETTINGS.wordsPerRound
+          );
           
-          // Check round status
-          const now = new Date().getTime();
-          const startTime = new Date(roundData.start_time).getTime();
-          const elapsed = Math.floor((now - startTime) / 1000);
-          const remaining = Math.max(0, ROUND_TIME - elapsed);
+          // Check round status, the round's time only starts once its topic vote closes
+          const voteOpen = isTopicVoteOpen(roundData);
+          const remaining = getSecondsLeft(roundData);
           
-          setTimeLeft(remaining);
-          setIsRoundActive(remaining > 0 && !roundData.end_time);
+          setTimeLeft(voteOpen ? null : remaining);
+          setIsRoundActive(!voteOpen && remaining > 0 && !roundData.end_time);
           setRoundEnded(!!roundData.end_time);
+          
+          if (voteOpen) {
+            await loadTopicVotes(roundData.id);
+          }
         }
       }
-      
-      // Set up real-time listeners if we have the game ID and it's not already set up
-      if (gameData.id && !listenersSetup.current) {
-        const channels = setupRealtimeListeners(gameData.id, storedPlayerId);
-        listenersSetup.current = true;
-        return channels;
-      }
     } catch (err) {
       console.error('Error in loadGameData:', err);
       setError(err instanceof Error ? err.message : 'Failed to load game data');
@@ -338,25 +467,11 @@ export default function Game() {
       // Initialize game state
       loadGameData();
       
-      let channels: any = null;
-      
       return () => {
-        // Clean up listeners on unmount
-        if (supabase && channels) {
-          // If we have specific channel references, use them
-          if (channels.gameChannel) supabase.removeChannel(channels.gameChannel);
-          if (channels.roundChannel) supabase.removeChannel(channels.roundChannel);
-          if (channels.submissionChannel) supabase.removeChannel(channels.submissionChannel);
-        } else if (supabase) {
-          // Fallback cleanup
-          supabase.channel('game_updates').unsubscribe();
-          supabase.channel('round_updates').unsubscribe();
-          supabase.channel('submission_updates').unsubscribe();
-        }
-        
         // Clear any timers
         if (timerRef.current) clearInterval(timerRef.current);
-        if (autoSaveRef.current) clearInterval(autoSaveRef.current);
+        if (autoSaveRef.current) clearTimeout(autoSaveRef.current);
+        if (suggestionTimerRef.current) clearTimeout(suggestionTimerRef.current);
       };
     } else if (typeof window !== 'undefined' && code) {
       // If we're in browser but don't have Supabase credentials, show error
@@ -365,6 +480,31 @@ export default function Game() {
     }
   }, [code, router, supabase, loadGameData]);
 
+  // Timers stop and players cannot act while the host has paused the game
+  const isPaused = game?.status === 'paused';
+
+  // Number of word inputs for each round, from the game settings
+  const wordsPerRound = game?.words_per_round || DEFAULT_GAME_SETTINGS.wordsPerRound;
+
+  // Warn players about words missing from the topic's dictionary while they type
+  const dictionaryCheck = game?.dictionary_check || DEFAULT_GAME_SETTINGS.dictionaryCheck;
+  const topicDictionary = getTopicDictionary(currentRound?.topic_id);
+  const isValidWord = topicDictionary && dictionaryCheck !== 'off'
+    ? createDictionaryValidator(topicDictionary, game?.normalizers || undefined)
+    : null;
+
+  // Whether the inputs differ from the words the player submitted
+  const hasUnsubmittedChanges = hasSubmitted
+    && JSON.stringify(words.map(word => word.trim()).filter(word => word !== '')) !== JSON.stringify(submittedWords);
+
+  // Reset the word inputs whenever a new round starts, keeping words restored for the round
+  useEffect(() => {
+    const restored = restoredWordsRef.current;
+    const drafts = restored && restored.roundId === currentRound?.id ? restored.words : [];
+    setWords(Array.from({ length: wordsPerRound }, (_, index) => drafts[index] || ''));
+    closeSuggestions();
+  }, [currentRound?.id, wordsPerRound]);
+
   // Function to format time as MM:SS
   const formatTime = (seconds: number | null): string => {
     if (seconds === null) return '00:00';
@@ -375,19 +515,93 @@ export default function Game() {
 
   // Handle word input change
   const handleWordChange = (index: number, value: string): void => {
-    if (hasSubmitted) return; // Don't allow changes after submission
+    if (isLockedIn) return; // Don't allow changes after locking in
     
     const newWords = [...words];
     newWords[index] = value;
     setWords(newWords);
+    requestSuggestions(index, value);
+  };
+
+  // Hide the suggestion dropdown and cancel any pending request
+  const closeSuggestions = (): void => {
+    if (suggestionTimerRef.current) clearTimeout(suggestionTimerRef.current);
+    suggestionQueryRef.current = '';
+    setSuggestions([]);
+    setSuggestionInput(null);
+    setActiveSuggestion(-1);
+  };
+
+  // Fetch spelling suggestions for a word input, once the player pauses typing
+  const requestSuggestions = (index: number, value: string): void => {
+    if (suggestionTimerRef.current) clearTimeout(suggestionTimerRef.current);
+
+    const roundId = currentRound?.id;
+    if (!roundId || value.trim().length < MIN_SUGGESTION_QUERY_LENGTH) {
+      closeSuggestions();
+      return;
+    }
+
+    suggestionQueryRef.current = value;
+    suggestionTimerRef.current = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ roundId, q: value });
+        const response = await fetch(`/api/games/autocomplete?${params}`);
+        const data = await response.json();
+
+        // Drop the response if the player kept typing
+        if (!response.ok || suggestionQueryRef.current !== value) return;
+
+        setSuggestions(data.suggestions || []);
+        setSuggestionInput(index);
+        setActiveSuggestion(-1);
+      } catch (error) {
+        console.error('Error loading word suggestions:', error);
+      }
+    }, SUGGESTION_DELAY_MS);
+  };
+
+  // Replace a word with the chosen suggestion
+  const handleSelectSuggestion = (index: number, suggestion: string): void => {
+    if (isLockedIn) return;
+
+    const newWords = [...words];
+    newWords[index] = suggestion;
+    setWords(newWords);
+    closeSuggestions();
+    inputRefs.current[index]?.focus();
   };
 
   // Handle key press in input field
-  const handleKeyPress = (index: number, e: React.KeyboardEvent<HTMLInputElement>): void => {
+  const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLInputElement>): void => {
+    const showingSuggestions = suggestionInput === index && suggestions.length > 0;
+
+    if (showingSuggestions && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      // Cycle through the suggestions, with -1 for none highlighted
+      const next = activeSuggestion + (e.key === 'ArrowDown' ? 1 : -1);
+      setActiveSuggestion(next < -1 ? suggestions.length - 1 : next >= suggestions.length ? -1 : next);
+      return;
+    }
+
+    if (showingSuggestions && e.key === 'Escape') {
+      e.preventDefault();
+      closeSuggestions();
+      return;
+    }
+
     if (e.key === 'Enter') {
       e.preventDefault();
+
+      // Pick the highlighted suggestion instead of moving on
+      if (showingSuggestions && activeSuggestion >= 0) {
+        handleSelectSuggestion(index, suggestions[activeSuggestion]);
+        return;
+      }
+
+      closeSuggestions();
       // Move to the next input field if not the last one
-      if (index < 4 && inputRefs.current[index + 1]) {
+      if (index < words.length - 1 && inputRefs.current[index + 1]) {
         inputRefs.current[index + 1]?.focus();
       } else {
         // Submit words if it's the last field
@@ -396,9 +610,9 @@ export default function Game() {
     }
   };
 
-  // Submit words
-  const handleSubmitWords = async (): Promise<void> => {
-    if (hasSubmitted || !playerId || !currentRound?.id) return;
+  // Submit words, or replace the submitted ones, optionally locking them in
+  const handleSubmitWords = async (lockIn = false): Promise<void> => {
+    if (isLockedIn || !playerId || !currentRound?.id) return;
     
     try {
       // Filter out empty words
@@ -411,34 +625,75 @@ export default function Game() {
       
       setIsSubmitting(true);
       
-      // Submit each word
-      for (const word of validWords) {
-        await supabase.from('submissions').insert({
-          player_id: playerId,
-          round_id: currentRound.id,
-          word: word.trim()
-        });
+      // Submit all words at once, the server checks the deadline and word limits
+      // and replaces any words submitted before
+      const response = await fetch('/api/games/submit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameId: game?.id,
+          roundId: currentRound.id,
+          playerId,
+          words: validWords,
+          lockIn
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.join('\n') || data.error || 'Failed to submit words');
       }
       
       // Update local state
       setHasSubmitted(true);
-      setSubmittedWords(validWords);
+      setSubmittedWords(data.words);
+      setIsLockedIn(data.lockedIn);
       
-      // Check if all players have submitted
+      // Check if all players have locked in
       await fetchSubmissionCounts();
       
     } catch (error) {
       console.error('Error submitting words:', error);
-      alert('Failed to submit words');
+      alert(error instanceof Error ? error.message : 'Failed to submit words');
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  // Auto-save words periodically
+  // Save the words being typed as drafts, they count if the player never submits
   const autoSaveWords = async (): Promise<void> => {
-    if (isRoundActive && !roundEnded) {
-      await handleSubmitWords();
+    if (!isRoundActive || roundEnded || hasSubmitted || !game || !playerId || !currentRound?.id) return;
+
+    const draftWords = words.map(word => word.trim()).filter(word => word !== '');
+    const draftKey = JSON.stringify(draftWords);
+    if (draftKey === savedDraftRef.current) return;
+
+    try {
+      const response = await fetch('/api/games/save-draft', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameId: game.id,
+          roundId: currentRound.id,
+          playerId,
+          words: draftWords
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.join('; ') || data.error || 'Failed to save draft words');
+      }
+
+      savedDraftRef.current = draftKey;
+    } catch (error) {
+      console.error('Error saving draft words:', error);
     }
   };
 
@@ -458,24 +713,41 @@ export default function Game() {
         body: JSON.stringify({
           gameId: game.id,
           roundId: currentRound.id,
-          roundNumber: currentRound.round_number
+          roundNumber: currentRound.round_number,
+          playerId
         }),
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        const data = await response.json();
         throw new Error(data.error || 'Failed to end round');
       }
       
-      console.log('Round ended successfully, waiting for next round...');
+      // Players contest words first, the round is scored once the adjudication closes
+      if (data.adjudicating) {
+        console.log('Round is being adjudicated until', data.adjudicationDeadline);
+        
+        // Reload the round for the words players can contest
+        const { data: roundData } = supabase
+          ? await supabase.from('rounds').select('*').eq('id', currentRound.id).single()
+          : { data: null };
+        
+        setCurrentRound(roundData || { ...currentRound, adjudication_deadline: data.adjudicationDeadline });
+        setIsRoundActive(false);
+        return;
+      }
+      
+      console.log('Round ended successfully, revealing results...');
       
-      // The next round will be started automatically by the API
-      // and detected by our real-time subscriptions
+      // The next round starts when the host advances or the reveal timer runs out,
+      // and is detected by our real-time subscriptions
       
       // Update the local round state to reflect that it's ended
       setCurrentRound({
         ...currentRound,
-        end_time: new Date().toISOString()
+        end_time: new Date(getServerTime()).toISOString(),
+        reveal_deadline: data.revealDeadline || currentRound.reveal_deadline
       });
       
       setRoundEnded(true);
@@ -485,6 +757,175 @@ export default function Game() {
     }
   };
 
+  // Vote for one of the round's candidate topics
+  const handleVoteTopic = async (topicId: string): Promise<void> => {
+    if (!gameId || !playerId || !currentRound) return;
+
+    try {
+      setIsVoting(true);
+
+      const response = await fetch('/api/games/vote-topic', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameId,
+          roundId: currentRound.id,
+          playerId,
+          topicId
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to vote for topic');
+      }
+
+      // Show the vote straight away, the realtime update confirms it
+      setTopicVotes(prev => [
+        ...prev.filter(v => v.round_id !== currentRound.id || v.player_id !== playerId),
+        { round_id: currentRound.id, player_id: playerId, topic_id: topicId }
+      ]);
+    } catch (err) {
+      console.error('Error voting for topic:', err);
+      alert(err instanceof Error ? err.message : 'Failed to vote for topic');
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  // Close the topic vote once its deadline has passed, which starts the round
+  const closeTopicVote = async (): Promise<void> => {
+    if (!gameId || !currentRound) return;
+
+    try {
+      const response = await fetch('/api/games/close-topic-vote', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameId,
+          roundId: currentRound.id
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to close topic vote');
+      }
+    } catch (err) {
+      console.error('Error closing topic vote:', err);
+    }
+  };
+
+  // Toggle a word in the selection to strike or merge
+  const handleSelectWord = (word: string): void => {
+    setSelectedWords(prev => prev.includes(word) ? prev.filter(w => w !== word) : [...prev, word]);
+  };
+
+  // Propose to strike the selected word or merge the selected words
+  const handleProposeAdjudication = async (action: AdjudicationAction): Promise<void> => {
+    if (!gameId || !playerId || !currentRound) return;
+
+    try {
+      setIsAdjudicating(true);
+
+      const response = await fetch('/api/games/adjudicate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameId,
+          roundId: currentRound.id,
+          playerId,
+          action,
+          words: selectedWords
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.join(', ') || data.error || 'Failed to contest words');
+      }
+
+      setSelectedWords([]);
+      setAdjudications(prev => [...prev.filter(a => a.id !== data.adjudication.id), data.adjudication]);
+    } catch (err) {
+      console.error('Error contesting words:', err);
+      setError(err instanceof Error ? err.message : 'Failed to contest words');
+    } finally {
+      setIsAdjudicating(false);
+    }
+  };
+
+  // Approve or reject another player's proposal
+  const handleAdjudicationVote = async (adjudicationId: string, approve: boolean): Promise<void> => {
+    if (!gameId || !playerId) return;
+
+    try {
+      setIsAdjudicating(true);
+
+      const response = await fetch('/api/games/adjudication-vote', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameId,
+          adjudicationId,
+          playerId,
+          approve
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to vote');
+      }
+
+      setAdjudications(prev => prev.map(a => a.id === data.adjudication.id ? data.adjudication : a));
+    } catch (err) {
+      console.error('Error voting on adjudication:', err);
+      setError(err instanceof Error ? err.message : 'Failed to vote');
+    } finally {
+      setIsAdjudicating(false);
+    }
+  };
+
+  // Close the adjudication early, the round is then scored by the adjudication countdown
+  const closeAdjudication = async (): Promise<void> => {
+    if (!gameId || !playerId || !currentRound) return;
+
+    try {
+      const response = await fetch('/api/games/close-adjudication', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameId,
+          roundId: currentRound.id,
+          playerId
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to close adjudication');
+      }
+
+      setCurrentRound({ ...currentRound, adjudication_deadline: new Date(getServerTime()).toISOString() });
+    } catch (err) {
+      console.error('Error closing adjudication:', err);
+      setError(err instanceof Error ? err.message : 'Failed to close adjudication');
+    }
+  };
+
   // Start the next round
   const startNextRound = async () => {
     if (!gameId || !playerId) {
@@ -498,10 +939,11 @@ export default function Game() {
       console.log('Starting next round with:', {
         gameId,
         playerId,
-        currentRoundNumber: currentRound ? currentRound.round_number : 0
+        roundNumber: currentRound ? currentRound.round_number : 0
       });
       
-      const response = await fetch('/api/games/start-round', {
+      // End the reveal of the round that just ended
+      const response = await fetch('/api/games/next-round', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -509,13 +951,13 @@ export default function Game() {
         body: JSON.stringify({
           gameId,
           playerId,
-          currentRoundNumber: currentRound ? currentRound.round_number : 0
+          roundNumber: currentRound ? currentRound.round_number : 0
         }),
       });
       
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to start next round');
+        throw new Error(errorData.error || 'Failed to start next round');
       }
       
       const data = await response.json();
@@ -523,11 +965,6 @@ export default function Game() {
       
       // We don't need to manually update state here as the real-time listeners will handle it
       // This prevents duplicate state updates that could cause infinite loops
-      
-      setHasSubmitted(false);
-      setSubmittedWords([]);
-      setWords(['', '', '', '', '']);
-      setRoundEnded(false);
     } catch (error) {
       console.error('Error starting next round:', error);
       setError(error instanceof Error ? error.message : 'Failed to start next round');
@@ -536,6 +973,38 @@ export default function Game() {
     }
   };
 
+  // Pause, resume or abandon the game, players follow through the game_status_changed event
+  const changeGameStatus = async (action: HostGameAction): Promise<void> => {
+    if (!gameId || !playerId) return;
+
+    if (action === 'abandon' && !confirm('End the game for everyone? Scores so far are kept.')) return;
+
+    setIsChangingStatus(true);
+
+    try {
+      const response = await fetch('/api/games/status', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ gameId, playerId, action }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change the game status');
+      }
+
+      setGame(prev => prev ? { ...prev, status: data.status } : prev);
+    } catch (error) {
+      console.error('Error changing game status:', error);
+      alert(error instanceof Error ? error.message : 'Failed to change the game status');
+    } finally {
+      setIsChangingStatus(false);
+    }
+  };
+
   // Set up real-time subscriptions
   useEffect(() => {
     if (!gameId || !code) return;
@@ -577,9 +1046,9 @@ export default function Game() {
       console.log('Updated game data:', updatedGame);
       setGame(updatedGame);
       
-      // If the game is completed, we'll be redirected by the game subscription
-      if (updatedGame.status === 'completed') {
-        console.log('Game is completed, redirecting to scoreboard...');
+      // The game_completed event also redirects players who are watching the game
+      if (isGameOver(updatedGame.status)) {
+        console.log('Game is over, redirecting to scoreboard...');
         router.push(`/scoreboard/${code}`);
         return;
       }
@@ -592,42 +1061,50 @@ export default function Game() {
         .eq('round_number', updatedGame.current_round)
         .single();
         
+      // The round may not be created yet, it arrives with the round_started event
       if (roundError) {
         console.error('Error fetching round data:', roundError);
-        // If we can't find the round, wait a moment and try again
-        // This handles the case where the round is being created but not yet available
-        setTimeout(() => checkForNextRound(), 1000);
         return;
       }
       
       console.log('New round data:', roundData);
       
+      // The round is still being revealed, the next round arrives with the round_started event
+      if (roundData.end_time) {
+        console.log('Round is still being revealed:', roundData.id);
+        setCurrentRound(roundData);
+        return;
+      }
+      
       // Update the current round and reset submission state
       setCurrentRound(roundData);
       setRoundEnded(false);
       setHasSubmitted(false);
+      setIsLockedIn(false);
       setSubmittedWords([]);
-      setWords(Array(5).fill(''));
       setAllPlayersSubmitted(false);
       
-      // Reset the timer
-      if (roundData.duration) {
-        setTimeLeft(roundData.duration);
-        setIsRoundActive(true);
+      // Reset the timer from the round's deadline, once its topic vote has closed
+      const voteOpen = isTopicVoteOpen(roundData);
+      const remaining = getSecondsLeft(roundData);
+      setTimeLeft(voteOpen ? null : remaining);
+      setIsRoundActive(!voteOpen && remaining > 0 && !roundData.end_time);
+      
+      if (voteOpen) {
+        await loadTopicVotes(roundData.id);
       }
       
       // Check for existing submissions (in case the player refreshed the page)
       const { data: existingSubmissions, error: submissionsError } = await supabase
         .from('submissions')
-        .select('word')
+        .select('word, is_final, locked_in')
         .eq('round_id', roundData.id)
-        .eq('player_id', playerId);
+        .eq('player_id', playerId)
+        .order('submitted_at');
         
       if (!submissionsError && existingSubmissions && existingSubmissions.length > 0) {
         console.log('Found existing submissions:', existingSubmissions);
-        const existingWords = existingSubmissions.map(s => s.word);
-        setSubmittedWords(existingWords);
-        setHasSubmitted(true);
+        restoreSubmissions(roundData.id, existingSubmissions, wordsPerRound);
       }
       
     } catch (error) {
@@ -657,27 +1134,28 @@ export default function Game() {
       
       console.log(`Found ${playersData.length} players in the game`);
       
-      // Get all submissions for the current round
+      // Get the locked-in submissions for the current round, players can still revise other words
       const { data: submissions, error: submissionsError } = await supabase
         .from('submissions')
         .select('player_id, word')
-        .eq('round_id', currentRound.id);
+        .eq('round_id', currentRound.id)
+        .eq('locked_in', true);
         
       if (submissionsError) throw submissionsError;
       
-      // Count unique players who have submitted
+      // Count unique players who have locked in
       const playersWhoSubmitted = new Set();
       submissions?.forEach(sub => playersWhoSubmitted.add(sub.player_id));
       
-      console.log(`${playersWhoSubmitted.size} of ${playersData.length} players have submitted`);
+      console.log(`${playersWhoSubmitted.size} of ${playersData.length} players have locked in`);
       
-      // Check if all players have submitted
+      // Check if all players have locked in
       const allSubmitted = playersData.length > 0 && playersWhoSubmitted.size >= playersData.length;
       setAllPlayersSubmitted(allSubmitted);
       
-      // If all players have submitted and the current player is the host, end the round
-      if (allSubmitted && currentPlayer?.is_host && !currentRound.end_time) {
-        console.log('All players have submitted, ending round automatically...');
+      // If all players have locked in and the current player is the host, end the round
+      if (allSubmitted && currentPlayer?.is_host && !currentRound.end_time && !currentRound.adjudication_deadline) {
+        console.log('All players have locked in, ending round automatically...');
         await endRound();
       }
       
@@ -686,38 +1164,171 @@ export default function Game() {
     }
   };
 
-  // Set up the countdown timer
+  // Check the round again once the clock is synced, a skewed device clock may have put it past its deadline
   useEffect(() => {
-    if (isRoundActive && timeLeft !== null && timeLeft > 0) {
-      timerRef.current = setInterval(() => {
-        setTimeLeft(prev => {
-          if (prev === null || prev <= 1) {
-            // Clear the interval when time is up
-            if (timerRef.current) {
-              clearInterval(timerRef.current);
-            }
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-      
-      return () => {
-        if (timerRef.current) {
-          clearInterval(timerRef.current);
-        }
-      };
-    }
-  }, [isRoundActive, timeLeft]);
+    if (!clockSample || !currentRound || currentRound.end_time || currentRound.adjudication_deadline || isPaused) return;
+    if (isTopicVoteOpen(currentRound)) return;
+
+    const remaining = getSecondsLeft(currentRound);
+    setTimeLeft(remaining);
+    setIsRoundActive(remaining > 0);
+  }, [clockSample]);
+
+  // Set up the countdown timer, reading the time left from the round's deadline on every tick
+  useEffect(() => {
+    if (!isRoundActive || !currentRound || isTopicVoteOpen(currentRound) || isPaused) return;
+
+    setTimeLeft(getSecondsLeft(currentRound));
+    timerRef.current = setInterval(() => {
+      const remaining = getSecondsLeft(currentRound);
+      setTimeLeft(remaining);
+
+      // Clear the interval when time is up
+      if (remaining === 0 && timerRef.current) {
+        clearInterval(timerRef.current);
+      }
+    }, 1000);
+
+    return () => {
+      if (timerRef.current) {
+        clearInterval(timerRef.current);
+      }
+    };
+  }, [isRoundActive, currentRound?.id, currentRound?.deadline, clockSample, isPaused]);
+
+  // Save drafts once the player pauses typing
+  useEffect(() => {
+    if (!isRoundActive || hasSubmitted || isPaused) return;
+
+    autoSaveRef.current = setTimeout(() => autoSaveWords(), DRAFT_SAVE_DELAY_MS);
+    return () => {
+      if (autoSaveRef.current) clearTimeout(autoSaveRef.current);
+    };
+  }, [words, isRoundActive, hasSubmitted, isPaused]);
 
   // Handle time up
   useEffect(() => {
     if (timeLeft === 0 && !hasSubmitted && !roundEnded) {
-      // Auto-submit when time runs out
-      handleSubmitWords();
+      // Save the latest words as drafts, the server makes them final when the round ends
+      autoSaveWords();
     }
   }, [timeLeft, hasSubmitted, roundEnded]);
 
+  // Count down the topic vote while it is open
+  const topicVoteOpen = !!currentRound && isTopicVoteOpen(currentRound);
+
+  useEffect(() => {
+    if (!currentRound || !topicVoteOpen) {
+      setVoteTimeLeft(null);
+      return;
+    }
+
+    // The vote's deadline moves when the game resumes
+    if (isPaused) return;
+
+    setVoteTimeLeft(getVoteSecondsLeft(currentRound));
+    const interval = setInterval(() => setVoteTimeLeft(getVoteSecondsLeft(currentRound)), 1000);
+    return () => clearInterval(interval);
+  }, [currentRound?.id, currentRound?.vote_deadline, topicVoteOpen, isPaused]);
+
+  // Close the topic vote shortly after its deadline
+  // The server also closes overdue votes on a schedule, and closing a vote twice is safe
+  useEffect(() => {
+    if (voteTimeLeft === 0 && isHost && topicVoteOpen && !isPaused) {
+      const timeout = setTimeout(() => closeTopicVote(), VOTE_GRACE_MS);
+      return () => clearTimeout(timeout);
+    }
+  }, [voteTimeLeft, isHost, topicVoteOpen, isPaused]);
+
+  // Count down the adjudication while players contest words
+  const awaitingAdjudication = !!currentRound && isAwaitingAdjudication(currentRound);
+
+  useEffect(() => {
+    if (!currentRound || !awaitingAdjudication) {
+      setAdjudicationTimeLeft(null);
+      setSelectedWords([]);
+      return;
+    }
+
+    loadAdjudications(currentRound.id);
+    if (isPaused) return;
+
+    setAdjudicationTimeLeft(getAdjudicationSecondsLeft(currentRound));
+    const interval = setInterval(() => setAdjudicationTimeLeft(getAdjudicationSecondsLeft(currentRound)), 1000);
+    return () => clearInterval(interval);
+  }, [currentRound?.id, currentRound?.adjudication_deadline, awaitingAdjudication, isPaused]);
+
+  // Score the round shortly after the adjudication closes
+  // The server also closes overdue rounds on a schedule, and ending a round twice is safe
+  useEffect(() => {
+    if (adjudicationTimeLeft === 0 && isHost && awaitingAdjudication && !isPaused) {
+      const timeout = setTimeout(() => endRound(), ADJUDICATION_GRACE_MS);
+      return () => clearTimeout(timeout);
+    }
+  }, [adjudicationTimeLeft, isHost, awaitingAdjudication, isPaused]);
+
+  // Load the results of a round once it has ended, for the reveal screen
+  useEffect(() => {
+    if (!roundEnded || !currentRound?.id || !supabase) {
+      setRoundResults(null);
+      return;
+    }
+
+    const loadRoundResults = async () => {
+      try {
+        setRoundResults(await getStoredRoundScores(currentRound.id));
+
+        // Refresh the players' total scores
+        const { data: playersData } = await supabase
+          .from('players')
+          .select('*')
+          .eq('game_id', currentRound.game_id);
+
+        if (playersData) {
+          setPlayers(playersData);
+        }
+      } catch (err) {
+        console.error('Error loading round results:', err);
+      }
+    };
+
+    loadRoundResults();
+  }, [roundEnded, currentRound?.id]);
+
+  // Count down the reveal of the round that just ended
+  const revealDeadline = roundEnded ? currentRound?.reveal_deadline : null;
+
+  useEffect(() => {
+    if (!currentRound || !revealDeadline) {
+      setRevealTimeLeft(null);
+      return;
+    }
+
+    if (isPaused) return;
+
+    setRevealTimeLeft(getRevealSecondsLeft(currentRound));
+    const interval = setInterval(() => setRevealTimeLeft(getRevealSecondsLeft(currentRound)), 1000);
+    return () => clearInterval(interval);
+  }, [currentRound?.id, revealDeadline, isPaused]);
+
+  // Start the next round shortly after the reveal timer runs out
+  // The server also starts the next round on a schedule, and advancing twice is safe
+  useEffect(() => {
+    if (revealTimeLeft === 0 && isHost && !startingRound && !isPaused) {
+      const timeout = setTimeout(() => startNextRound(), REVEAL_GRACE_MS);
+      return () => clearTimeout(timeout);
+    }
+  }, [revealTimeLeft, isHost, isPaused]);
+
+  // Close the round shortly after its deadline, leaving time for auto-submitted words to arrive
+  // The server also closes overdue rounds on a schedule, and ending a round twice is safe
+  useEffect(() => {
+    if (timeLeft === 0 && isHost && currentRound && !currentRound.end_time && !isPaused) {
+      const timeout = setTimeout(() => endRound(), DEADLINE_GRACE_MS);
+      return () => clearTimeout(timeout);
+    }
+  }, [timeLeft, isHost, currentRound?.id, isPaused]);
+
   // Fetch submission counts when the round changes
   useEffect(() => {
     if (currentRound) {
@@ -732,16 +1343,105 @@ export default function Game() {
     }
   }, [roundEnded, checkForNextRound]);
 
-  // Fetch submission counts periodically
-  useEffect(() => {
-    if (game && currentRound && !hasSubmitted && !roundEnded) {
-      const interval = setInterval(() => {
-        fetchSubmissionCounts();
-      }, 5000);
-      
-      return () => clearInterval(interval);
+  // Follow the game's rounds, votes, submissions and adjudication as the server publishes them
+  useGameEvents(game?.id, {
+    round_started: ({ round }) => {
+      const newRound = round as unknown as Round;
+      setCurrentRound(newRound);
+      setGame(prev => prev ? { ...prev, current_round: newRound.round_number } : prev);
+      setRoundEnded(false);
+      setHasSubmitted(false);
+      setIsLockedIn(false);
+      setSubmittedWords([]);
+      setAllPlayersSubmitted(false);
+
+      // Rounds with a topic vote start once the vote closes, which starts the round again
+      const voteOpen = isTopicVoteOpen(newRound);
+      setIsRoundActive(!voteOpen);
+      setTimeLeft(voteOpen ? null : getSecondsLeft(newRound));
+    },
+    topic_vote_cast: ({ vote }) => {
+      // A player voting again replaces their earlier vote
+      setTopicVotes(prev => [
+        ...prev.filter(v => v.round_id !== vote.round_id || v.player_id !== vote.player_id),
+        vote
+      ]);
+    },
+    words_submitted: ({ roundId, playerId: submitterId }) => {
+      // Submitting again replaces the whole set, so reload this player's words
+      if (submitterId === playerId) {
+        loadSubmittedWords(roundId);
+      }
+    },
+    round_updated: ({ round }) => {
+      const updatedRound = round as unknown as Round;
+      setCurrentRound(updatedRound);
+
+      // Submissions are closed while players contest words
+      if (updatedRound.adjudication_deadline) {
+        setIsRoundActive(false);
+      }
+    },
+    round_ended: ({ round }) => {
+      setCurrentRound(round as unknown as Round);
+      setRoundEnded(true);
+      setIsRoundActive(false);
+      setTimeLeft(0);
+    },
+    submission_count_changed: ({ roundId, lockedIn, players: playerCount }) => {
+      if (!currentRound || roundId !== currentRound.id) return;
+
+      const allLockedIn = playerCount > 0 && lockedIn >= playerCount;
+      setAllPlayersSubmitted(allLockedIn);
+
+      // The host ends the round as soon as every player has locked in
+      if (allLockedIn && isHost && !isPaused && !currentRound.end_time && !currentRound.adjudication_deadline) {
+        console.log('All players have locked in, ending round automatically...');
+        endRound();
+      }
+    },
+    adjudication_changed: ({ adjudication }) => {
+      setAdjudications(prev => [...prev.filter(a => a.id !== adjudication.id), adjudication]);
+    },
+    adjudication_vote_cast: ({ vote }) => {
+      // A player voting again replaces their earlier vote
+      setAdjudicationVotes(prev => [
+        ...prev.filter(v => v.adjudication_id !== vote.adjudication_id || v.player_id !== vote.player_id),
+        vote
+      ]);
+    },
+    game_status_changed: ({ status }) => {
+      setGame(prev => prev ? { ...prev, status } : prev);
+
+      // Completed games redirect with the game_completed event
+      if (status === 'abandoned') {
+        router.push(`/scoreboard/${code}`);
+      }
+    },
+    game_completed: () => {
+      router.push(`/scoreboard/${code}`);
     }
-  }, [game, currentRound, hasSubmitted, roundEnded, fetchSubmissionCounts]);
+  });
+
+  // UI copy for the current round type, from its registered scoring rule
+  const roundCopy = currentRound ? getScoringRule(currentRound.type)?.copy : undefined;
+
+  // Live vote counts for the current round's candidate topics
+  const roundVotes = currentRound ? topicVotes.filter(vote => vote.round_id === currentRound.id) : [];
+  const voteCounts = tallyTopicVotes(currentRound?.topic_candidates || [], roundVotes);
+  const myVote = roundVotes.find(vote => vote.player_id === playerId)?.topic_id;
+
+  // Words of the round that just ended, grouped by how many players submitted them
+  const roundRule = currentRound ? getScoringRule(currentRound.type) : undefined;
+  const revealGroups = roundResults ? buildRoundReveal(roundResults) : [];
+  const getPlayerName = (id: string) => players.find(player => player.id === id)?.name || 'Unknown player';
+
+  // Proposals to strike or merge words of the round being adjudicated
+  const roundAdjudications = currentRound ? adjudications.filter(a => a.round_id === currentRound.id) : [];
+  const getAdjudicationVotes = (id: string) => adjudicationVotes.filter(vote => vote.adjudication_id === id);
+  const describeAdjudication = (adjudication: Adjudication) => adjudication.action === 'strike'
+    ? `strike "${adjudication.words[0]}"`
+    : `merge ${adjudication.words.map(word => `"${word}"`).join(' + ')}`;
 
   if (isLoading) {
     return (
@@ -788,7 +1488,8 @@ export default function Game() {
                 </h1>
                 <div className="text-sm text-gray-500">
                   Round {game?.current_round} of {game?.round_count}
-                  {game?.status === 'completed' && (
+                  {game && <span className="ml-2">· {GAME_STATUS_LABELS[game.status]}</span>}
+                  {game && isGameOver(game.status) && (
                     <Link href={`/scoreboard/${code}`} className="ml-2 text-blue-600 hover:text-blue-800">
                       View Final Scoreboard
                     </Link>
@@ -796,21 +1497,86 @@ export default function Game() {
                 </div>
               </div>
 
-              {currentRound && (
-                <div className={`p-4 rounded-lg mb-6 ${
-                  currentRound.type === 'match' 
-                    ? 'bg-blue-50' 
-                    : 'bg-purple-50'
-                }`}>
+              {isHost && game && !isGameOver(game.status) && (
+                <div className="flex justify-end gap-2 mb-4">
+                  {isPaused ? (
+                    <button
+                      onClick={() => changeGameStatus('resume')}
+                      disabled={isChangingStatus}
+                      className="px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:bg-gray-300"
+                    >
+                      Resume
+                    </button>
+                  ) : canPause(game.status) && (
+                    <button
+                      onClick={() => changeGameStatus('pause')}
+                      disabled={isChangingStatus}
+                      className="px-3 py-1 text-sm bg-gray-200 hover:bg-gray-300 text-gray-800 rounded-md disabled:opacity-50"
+                    >
+                      Pause
+                    </button>
+                  )}
+                  <button
+                    onClick={() => changeGameStatus('abandon')}
+                    disabled={isChangingStatus}
+                    className="px-3 py-1 text-sm bg-red-100 hover:bg-red-200 text-red-700 rounded-md disabled:opacity-50"
+                  >
+                    End Game
+                  </button>
+                </div>
+              )}
+
+              {isPaused && (
+                <div className="bg-yellow-50 text-yellow-800 p-3 rounded-md mb-4">
+                  {isHost
+                    ? 'The game is paused. Timers continue from where they stopped when you resume.'
+                    : 'The host has paused the game. Timers continue from where they stopped when it resumes.'}
+                </div>
+              )}
+
+              {currentRound && roundCopy && topicVoteOpen && (
+                <div className={`p-4 rounded-lg mb-6 ${roundCopy.backgroundClass}`}>
                   <div className="flex justify-between items-center mb-2">
-                    <h2 className={`text-lg font-semibold ${
-                      currentRound.type === 'match' 
-                        ? 'text-blue-800' 
-                        : 'text-purple-800'
-                    }`}>
-                      {currentRound.type === 'match' 
-                        ? 'Match Words Round' 
-                        : 'Unmatch Words Round'}
+                    <h2 className={`text-lg font-semibold ${roundCopy.textClass}`}>
+                      {roundCopy.title}: vote for the topic
+                    </h2>
+                    <div className="text-xl font-mono text-gray-600">
+                      Voting ends in: {formatTime(voteTimeLeft)}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    {(currentRound.topic_candidates || []).map((candidate) => (
+                      <button
+                        key={candidate.id}
+                        onClick={() => handleVoteTopic(candidate.id)}
+                        disabled={isVoting || voteTimeLeft === 0 || isPaused}
+                        className={`w-full text-left p-3 rounded-md border ${
+                          myVote === candidate.id
+                            ? 'border-blue-500 bg-blue-50'
+                            : 'border-gray-200 bg-white hover:border-blue-300'
+                        }`}
+                      >
+                        <div className="flex justify-between items-center">
+                          <span className="font-medium text-gray-800">{candidate.name}</span>
+                          <span className="text-sm text-gray-600">
+                            {voteCounts[candidate.id]} {voteCounts[candidate.id] === 1 ? 'vote' : 'votes'}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-500">{candidate.description}</p>
+                      </button>
+                    ))}
+                  </div>
+                  <p className="mt-2 text-sm text-gray-500">
+                    {roundVotes.length} of {players.length} players have voted
+                  </p>
+                </div>
+              )}
+
+              {currentRound && roundCopy && !topicVoteOpen && (
+                <div className={`p-4 rounded-lg mb-6 ${roundCopy.backgroundClass}`}>
+                  <div className="flex justify-between items-center mb-2">
+                    <h2 className={`text-lg font-semibold ${roundCopy.textClass}`}>
+                      {roundCopy.title}
                     </h2>
                     <div className={`text-xl font-mono ${
                       timeLeft === null ? 'text-gray-600' :
@@ -827,16 +1593,240 @@ export default function Game() {
                     Topic: {currentRound.topic}
                   </div>
                   <p className="text-sm text-gray-600 mb-4">
-                    {currentRound.type === 'match' 
-                      ? 'Try to write the same words as other players!' 
-                      : 'Try to write words that no one else will think of!'}
+                    {roundCopy.instructions}
                   </p>
 
                   {/* Word submission form */}
                   <div className="mt-4">
-                    {hasSubmitted ? (
+                    {roundEnded ? (
+                      <div className="bg-white p-4 rounded-md mb-4">
+                        <div className="flex justify-between items-center mb-3">
+                          <h3 className="font-semibold text-gray-800">Round {currentRound.round_number} results</h3>
+                          {revealTimeLeft !== null && (
+                            <span className="text-sm text-gray-500">
+                              Next round in {formatTime(revealTimeLeft)}
+                            </span>
+                          )}
+                        </div>
+
+                        {!roundResults ? (
+                          <p className="text-sm text-gray-500">Loading results...</p>
+                        ) : revealGroups.length === 0 ? (
+                          <p className="text-sm text-gray-500">Nobody submitted any words this round.</p>
+                        ) : (
+                          <div className="space-y-3">
+                            {revealGroups.map((group) => (
+                              <div key={group.sharedBy}>
+                                <p className="text-xs font-medium text-gray-500 uppercase mb-1">
+                                  {group.sharedBy === 1 ? 'Unique words' : `Submitted by ${group.sharedBy} players`}
+                                </p>
+                                <div className="flex flex-wrap gap-2">
+                                  {group.words.map((revealedWord) => (
+                                    <div
+                                      key={revealedWord.word}
+                                      title={revealedWord.players.map(p => `${getPlayerName(p.playerId)}: ${p.typed}`).join('\n')}
+                                      className={`px-2 py-1 rounded-md border text-sm ${
+                                        revealedWord.invalid
+                                          ? 'bg-red-50 border-red-300 text-red-700'
+                                          : revealedWord.points > 0
+                                            ? 'bg-green-50 border-green-400 text-green-800'
+                                            : 'bg-gray-50 border-gray-200 text-gray-600'
+                                      }`}
+                                    >
+                                      <span className={`font-medium ${revealedWord.invalid ? 'line-through' : ''}`}>
+                                        {revealedWord.word}
+                                      </span>
+                                      {revealedWord.points > 0 && <span className="ml-1">+{revealedWord.points}</span>}
+                                      <span className="block text-xs text-gray-500">
+                                        {revealedWord.players.map(p => getPlayerName(p.playerId)).join(', ')}
+                                      </span>
+                                    </div>
+                                  ))}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {roundResults && roundRule && (
+                          <ul className="mt-4 space-y-1">
+                            {Object.entries(roundResults)
+                              .sort(([, a], [, b]) => b.score - a.score)
+                              .map(([id, result]) => {
+                                const bonus = result.ledger.find(entry => entry.reason === 'bonus');
+
+                                return (
+                                  <li key={id} className="flex justify-between text-sm text-gray-700">
+                                    <span>
+                                      {getPlayerName(id)}
+                                      {bonus && (
+                                        <span className="ml-2 text-xs bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded-full">
+                                          {roundRule.copy.bonusDescription} +{bonus.points}
+                                        </span>
+                                      )}
+                                    </span>
+                                    <span className="font-medium">+{result.score}</span>
+                                  </li>
+                                );
+                              })}
+                          </ul>
+                        )}
+
+                        <div className="mt-4 flex justify-end">
+                          {currentPlayer?.is_host ? (
+                            <button
+                              onClick={startNextRound}
+                              disabled={startingRound || isPaused}
+                              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium disabled:bg-gray-300"
+                            >
+                              {startingRound ? 'Starting...' : 'Start Next Round'}
+                            </button>
+                          ) : (
+                            <p className="text-sm text-gray-600">
+                              Waiting for the host to start the next round...
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    ) : awaitingAdjudication ? (
+                      <div className="bg-white p-4 rounded-md mb-4">
+                        <div className="flex justify-between items-center mb-3">
+                          <h3 className="font-semibold text-gray-800">Contest words</h3>
+                          <span className="text-sm text-gray-500">
+                            Scoring in {formatTime(adjudicationTimeLeft)}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-600 mb-3">
+                          Select one word to strike it, or several words to count them as the same word.
+                          {currentPlayer?.is_host
+                            ? ' Your decisions apply straight away.'
+                            : ' Your proposals need a majority of players or the host.'}
+                        </p>
+
+                        {(currentRound.adjudication_words || []).length === 0 ? (
+                          <p className="text-sm text-gray-500">Nobody submitted any words this round.</p>
+                        ) : (
+                          <div className="flex flex-wrap gap-2">
+                            {(currentRound.adjudication_words || []).map((contestable) => (
+                              <button
+                                key={contestable.word}
+                                onClick={() => handleSelectWord(contestable.word)}
+                                disabled={isAdjudicating || adjudicationTimeLeft === 0 || isPaused}
+                                title={contestable.players.map(p => `${getPlayerName(p.playerId)}: ${p.typed}`).join('\n')}
+                                className={`px-2 py-1 rounded-md border text-sm text-left ${
+                                  selectedWords.includes(contestable.word)
+                                    ? 'border-blue-500 bg-blue-50 text-blue-800'
+                                    : contestable.invalid
+                                      ? 'border-orange-300 bg-orange-50 text-orange-800 hover:border-blue-300'
+                                      : 'border-gray-200 bg-white text-gray-700 hover:border-blue-300'
+                                }`}
+                              >
+                                <span className="font-medium">{contestable.word}</span>
+                                {contestable.invalid && (
+                                  <span className="block text-xs text-orange-600">Not in the word list</span>
+                                )}
+                                <span className="block text-xs text-gray-500">
+                                  {contestable.players.map(p => getPlayerName(p.playerId)).join(', ')}
+                                </span>
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
+                        <div className="mt-3 flex gap-2">
+                          <button
+                            onClick={() => handleProposeAdjudication('strike')}
+                            disabled={isAdjudicating || selectedWords.length !== 1 || adjudicationTimeLeft === 0 || isPaused}
+                            className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm font-medium disabled:bg-gray-300"
+                          >
+                            Strike word
+                          </button>
+                          <button
+                            onClick={() => handleProposeAdjudication('merge')}
+                            disabled={isAdjudicating || selectedWords.length < 2 || adjudicationTimeLeft === 0 || isPaused}
+                            className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-medium disabled:bg-gray-300"
+                          >
+                            Merge words
+                          </button>
+                        </div>
+
+                        {roundAdjudications.length > 0 && (
+                          <ul className="mt-4 space-y-2">
+                            {roundAdjudications.map((adjudication) => {
+                              const votes = getAdjudicationVotes(adjudication.id);
+                              const myAdjudicationVote = votes.find(vote => vote.player_id === playerId);
+
+                              return (
+                                <li key={adjudication.id} className="flex justify-between items-center text-sm text-gray-700">
+                                  <span>
+                                    {getPlayerName(adjudication.player_id)}: {describeAdjudication(adjudication)}
+                                  </span>
+                                  {adjudication.status === 'pending' ? (
+                                    <span className="flex items-center gap-2">
+                                      <span className="text-xs text-gray-500">
+                                        {votes.filter(vote => vote.approve).length} of {players.length} approve
+                                      </span>
+                                      {adjudication.player_id !== playerId && (
+                                        <>
+                                          <button
+                                            onClick={() => handleAdjudicationVote(adjudication.id, true)}
+                                            disabled={isAdjudicating || adjudicationTimeLeft === 0 || isPaused}
+                                            className={`px-2 py-0.5 rounded-md border text-xs ${
+                                              myAdjudicationVote?.approve === true
+                                                ? 'border-green-500 bg-green-50 text-green-800'
+                                                : 'border-gray-200 text-gray-600 hover:border-green-300'
+                                            }`}
+                                          >
+                                            Approve
+                                          </button>
+                                          <button
+                                            onClick={() => handleAdjudicationVote(adjudication.id, false)}
+                                            disabled={isAdjudicating || adjudicationTimeLeft === 0 || isPaused}
+                                            className={`px-2 py-0.5 rounded-md border text-xs ${
+                                              myAdjudicationVote?.approve === false
+                                                ? 'border-red-500 bg-red-50 text-red-800'
+                                                : 'border-gray-200 text-gray-600 hover:border-red-300'
+                                            }`}
+                                          >
+                                            Reject
+                                          </button>
+                                        </>
+                                      )}
+                                    </span>
+                                  ) : (
+                                    <span className={`text-xs px-2 py-0.5 rounded-full ${
+                                      adjudication.status === 'accepted'
+                                        ? 'bg-green-100 text-green-800'
+                                        : 'bg-gray-100 text-gray-600'
+                                    }`}>
+                                      {adjudication.status}{adjudication.decided_by && ` by ${adjudication.decided_by}`}
+                                    </span>
+                                  )}
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        )}
+
+                        <div className="mt-4 flex justify-end">
+                          {currentPlayer?.is_host ? (
+                            <button
+                              onClick={closeAdjudication}
+                              disabled={adjudicationTimeLeft === 0 || isPaused}
+                              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium disabled:bg-gray-300"
+                            >
+                              Score Round Now
+                            </button>
+                          ) : (
+                            <p className="text-sm text-gray-600">
+                              The round is scored when the host closes the adjudication or the time runs out.
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    ) : isLockedIn ? (
                       <div className="bg-green-50 p-4 rounded-md mb-4">
-                        <p className="text-green-700 font-medium">You have submitted your words!</p>
+                        <p className="text-green-700 font-medium">You have locked in your words!</p>
                         <ul className="mt-2 list-disc pl-5">
                           {submittedWords.map((word, index) => (
                             <li key={index} className="text-gray-700">{word}</li>
@@ -844,55 +1834,102 @@ export default function Game() {
                         </ul>
                         <p className="mt-2 text-sm text-gray-500">
                           {allPlayersSubmitted 
-                            ? 'All players have submitted. Moving to the next round soon...' 
-                            : 'Waiting for other players to submit...'}
+                            ? 'All players have locked in. Moving to the next round soon...' 
+                            : 'Waiting for other players to lock in...'}
                         </p>
                       </div>
                     ) : (
                       <div className="space-y-2">
                         {words.map((word, index) => (
-                          <input
-                            key={index}
-                            type="text"
-                            value={word}
-                            onChange={(e) => handleWordChange(index, e.target.value)}
-                            onKeyPress={(e) => handleKeyPress(index, e)}
-                            ref={(el) => { inputRefs.current[index] = el; }}
-                            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            placeholder={`Word ${index + 1}`}
-                            disabled={hasSubmitted || isSubmitting}
-                            maxLength={30}
-                          />
+                          <div key={index} className="relative">
+                            <input
+                              type="text"
+                              value={word}
+                              onChange={(e) => handleWordChange(index, e.target.value)}
+                              onKeyDown={(e) => handleKeyDown(index, e)}
+                              onBlur={() => { if (suggestionInput === index) closeSuggestions(); }}
+                              ref={(el) => { inputRefs.current[index] = el; }}
+                              className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              placeholder={`Word ${index + 1}`}
+                              disabled={isLockedIn || isSubmitting || isPaused}
+                              maxLength={MAX_WORD_LENGTH}
+                              role="combobox"
+                              aria-label={`Word ${index + 1}`}
+                              aria-autocomplete="list"
+                              aria-expanded={suggestionInput === index && suggestions.length > 0}
+                              aria-controls={`word-suggestions-${index}`}
+                              aria-activedescendant={suggestionInput === index && activeSuggestion >= 0
+                                ? `word-suggestion-${index}-${activeSuggestion}`
+                                : undefined}
+                              autoComplete="off"
+                            />
+                            {suggestionInput === index && suggestions.length > 0 && (
+                              <ul
+                                id={`word-suggestions-${index}`}
+                                role="listbox"
+                                aria-label="Suggested spellings"
+                                className="absolute z-10 mt-1 w-full max-w-xs bg-white border border-gray-200 rounded-md shadow-lg"
+                              >
+                                {suggestions.map((suggestion, suggestionIndex) => (
+                                  <li
+                                    key={suggestion}
+                                    id={`word-suggestion-${index}-${suggestionIndex}`}
+                                    role="option"
+                                    aria-selected={suggestionIndex === activeSuggestion}
+                                    // Keep focus in the input, so the blur does not close the list before the click
+                                    onMouseDown={(e) => e.preventDefault()}
+                                    onClick={() => handleSelectSuggestion(index, suggestion)}
+                                    className={`px-3 py-1 cursor-pointer ${
+                                      suggestionIndex === activeSuggestion ? 'bg-blue-100' : 'hover:bg-gray-100'
+                                    }`}
+                                  >
+                                    {suggestion}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {isValidWord && word.trim() !== '' && !isValidWord(word) && (
+                              <p className="mt-1 text-xs text-orange-600">
+                                Not in the {currentRound.topic} word list
+                                {dictionaryCheck === 'zero' ? ', it will score zero' : ', players may strike it'}
+                              </p>
+                            )}
+                          </div>
                         ))}
                         
+                        {hasSubmitted && (
+                          <p className="text-sm text-gray-600">
+                            {hasUnsubmittedChanges
+                              ? 'You have changes that are not submitted yet.'
+                              : 'Your words are submitted.'}
+                            {' '}You can change them until the round ends, or lock them in.
+                          </p>
+                        )}
+                        
                         <div className="mt-4 flex justify-between">
                           <button
-                            onClick={handleSubmitWords}
-                            disabled={hasSubmitted || isSubmitting}
+                            onClick={() => handleSubmitWords()}
+                            disabled={isSubmitting || isPaused || (hasSubmitted && !hasUnsubmittedChanges)}
                             className={`px-4 py-2 rounded-md font-medium ${
-                              isRoundActive && !isSubmitting
+                              isRoundActive && !isSubmitting && !isPaused && (!hasSubmitted || hasUnsubmittedChanges)
                                 ? 'bg-green-600 hover:bg-green-700 text-white'
                                 : 'bg-gray-300 text-gray-500 cursor-not-allowed'
                             }`}
                           >
-                            {isSubmitting ? 'Submitting...' : 'Submit Words'}
+                            {isSubmitting ? 'Submitting...' : hasSubmitted ? 'Update Words' : 'Submit Words'}
+                          </button>
+                          <button
+                            onClick={() => handleSubmitWords(true)}
+                            disabled={isSubmitting || isPaused}
+                            className={`px-4 py-2 rounded-md font-medium ${
+                              isRoundActive && !isSubmitting && !isPaused
+                                ? 'bg-blue-600 hover:bg-blue-700 text-white'
+                                : 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                            }`}
+                          >
+                            Lock In
                           </button>
-                          
-                          {currentPlayer?.is_host && roundEnded && (
-                            <button
-                              onClick={startNextRound}
-                              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md font-medium"
-                            >
-                              Start Next Round
-                            </button>
-                          )}
                         </div>
-
-                        {roundEnded && !currentPlayer?.is_host && (
-                          <p className="mt-4 text-center text-gray-600">
-                            Waiting for the host to start the next round...
-                          </p>
-                        )}
                       </div>
                     )}
                   </div>
@@ -927,12 +1964,12 @@ export default function Game() {
                             ) : (
                               <div className="flex items-center">
                                 <span className="text-xs text-gray-500 mr-1">
-                                  {player.submissionCount || 0}/5
+                                  {player.submissionCount || 0}/{wordsPerRound}
                                 </span>
                                 <div className="w-16 h-2 bg-gray-200 rounded-full overflow-hidden">
                                   <div 
                                     className="h-full bg-blue-500 rounded-full"
-                                    style={{ width: `${((player.submissionCount || 0) / 5) * 100}%` }}
+                                    style={{ width: `${((player.submissionCount || 0) / wordsPerRound) * 100}%` }}
                                   ></div>
                                 </div>
                               </div>
@@ -1,7 +1,24 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, ChangeEvent } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
 import { createClient } from '@supabase/supabase-js';
+import {
+  DICTIONARY_CHECK_OPTIONS,
+  DictionaryCheck,
+  GameSettings,
+  GAME_SETTINGS_LIMITS,
+  ROUND_MIX_OPTIONS,
+  RoundMix,
+  getGameSettings,
+  toGameSettingsRow
+} from '../../lib/gameSettings';
+import { useGameEvents } from '../../hooks/useGameEvents';
+import { GameStatus, isGameStarted } from '../../lib/gameState';
+import { RoundPlanEntry } from '../../lib/roundPlan';
+import { getRoundTypes, getScoringRule } from '../../lib/scoreCalculator';
+import { mergeTopicPacks, TopicPack } from '../../lib/topicPacks';
+import { TopicFilter } from '../../lib/topicFilter';
+import { TopicDifficulty, TopicsCollection, TOPIC_DIFFICULTIES, TOPIC_POOLS } from '../../lib/topicRegistry';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -21,12 +38,29 @@ interface Player {
 interface Game {
   id: string;
   code: string;
-  status: 'lobby' | 'in-progress' | 'completed';
+  status: GameStatus;
   current_round: number;
   round_count: number;
+  time_per_round: number;
+  words_per_round: number;
+  max_players: number;
+  round_mix: RoundMix;
+  round_plan: RoundPlanEntry[];
+  topic_pack_ids: string[] | null;
+  topic_filter: Partial<TopicFilter>;
+  adjudication: boolean;
+  dictionary_check: DictionaryCheck;
   created_at: string;
 }
 
+// Labels for the numeric settings shown in the lobby
+const SETTING_LABELS: Record<keyof typeof GAME_SETTINGS_LIMITS, string> = {
+  roundCount: 'Rounds',
+  timePerRound: 'Seconds per round',
+  wordsPerRound: 'Words per round',
+  maxPlayers: 'Max players'
+};
+
 export default function Lobby() {
   const router = useRouter();
   const { code } = router.query;
@@ -38,6 +72,12 @@ export default function Lobby() {
   const [loading, setLoading] = useState(true);
   const [startingGame, setStartingGame] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [settings, setSettings] = useState<GameSettings | null>(null);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [settingsSaved, setSettingsSaved] = useState(false);
+  const [topicPacks, setTopicPacks] = useState<TopicPack[]>([]);
+  const [builtInTopics, setBuiltInTopics] = useState<TopicsCollection>({ match: [], unmatch: [] });
+  const [updatingPacks, setUpdatingPacks] = useState(false);
 
   // Check if the current player is the host
   const isHost = currentPlayer?.is_host || false;
@@ -45,6 +85,42 @@ export default function Lobby() {
   // Check if there are enough players to start the game (at least 2)
   const canStartGame = players.length >= 2;
 
+  // Topics the game's rounds draw from, used by the round plan editor
+  const selectedPackIds = game?.topic_pack_ids || [];
+  const gameTopics = mergeTopicPacks(topicPacks.filter(pack => selectedPackIds.includes(pack.id)), builtInTopics);
+
+  // Tags the host can filter topics by
+  const topicTags = Array.from(new Set(
+    TOPIC_POOLS.flatMap(pool => gameTopics[pool].flatMap(topic => topic.tags || []))
+  )).sort();
+
+  useEffect(() => {
+    // Load the built-in topics and the uploaded topic packs the host can choose from
+    const fetchTopics = async () => {
+      try {
+        const [topicsResponse, packsResponse] = await Promise.all([
+          fetch('/api/topics'),
+          fetch('/api/topic-packs'),
+        ]);
+        const [topicsData, packsData] = await Promise.all([
+          topicsResponse.json(),
+          packsResponse.json(),
+        ]);
+
+        if (!topicsResponse.ok || !packsResponse.ok) {
+          throw new Error(topicsData.error || packsData.error || 'Failed to load topics');
+        }
+
+        setBuiltInTopics(topicsData);
+        setTopicPacks(packsData.packs);
+      } catch (err) {
+        console.error('Error loading topics:', err);
+      }
+    };
+
+    fetchTopics();
+  }, []);
+
   useEffect(() => {
     // Only run this effect when the code is available from the router
     if (!code) return;
@@ -68,13 +144,14 @@ export default function Lobby() {
 
         if (gameError) throw gameError;
         
-        if (gameData.status === 'in-progress') {
+        if (isGameStarted(gameData.status)) {
           // If game has already started, redirect to game page
           router.push(`/game/${code}`);
           return;
         }
 
         setGame(gameData);
+        setSettings(getGameSettings(gameData));
 
         // Fetch players in this game
         const { data: playersData, error: playersError } = await supabase
@@ -106,52 +183,25 @@ export default function Lobby() {
     };
 
     fetchGameAndPlayers();
-
-    // Set up real-time subscription for player updates
-    const playersSubscription = supabase
-      .channel('public:players')
-      .on('postgres_changes', {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'players',
-        filter: `game_id=eq.${game?.id}`,
-      }, (payload) => {
-        setPlayers(current => [...current, payload.new as Player]);
-      })
-      .subscribe();
-
-    // Subscribe to game updates
-    const gameId = game?.id;
-    if (gameId) {
-      const gameSubscription = supabase
-        .channel(`game:${gameId}`)
-        .on('postgres_changes', {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'games',
-          filter: `id=eq.${gameId}`
-        }, (payload) => {
-          console.log('Game updated:', payload);
-          const updatedGame = payload.new;
-          
-          // If game status changed to in-progress, redirect to game page
-          if (updatedGame.status === 'in-progress') {
-            console.log('Game started, redirecting to game page');
-            router.push(`/game/${code}`);
-          }
-        })
-        .subscribe();
-
-      return () => {
-        supabase.removeChannel(gameSubscription);
-      };
+  }, [code, router]);
+
+  // Follow players joining and the host's changes as the server publishes them
+  useGameEvents(game?.id, {
+    player_joined: ({ player }) => {
+      setPlayers(current => current.some(p => p.id === player.id)
+        ? current
+        : [...current, player as unknown as Player]);
+    },
+    settings_changed: ({ settings: updatedSettings }) => {
+      // Keep the displayed settings in sync with the host's changes
+      setGame(current => current ? { ...current, ...toGameSettingsRow(updatedSettings) } : current);
+      setSettings(updatedSettings);
+    },
+    game_started: () => {
+      console.log('Game started, redirecting to game page');
+      router.push(`/game/${code}`);
     }
-
-    // Cleanup subscriptions on unmount
-    return () => {
-      playersSubscription.unsubscribe();
-    };
-  }, [code, router, game?.id]);
+  });
 
   const handleStartGame = async () => {
     if (!isHost || !canStartGame || startingGame) return;
@@ -177,7 +227,7 @@ export default function Lobby() {
         throw new Error(data.error || 'Failed to start game');
       }
 
-      // The redirect will happen automatically when the game status updates
+      // The redirect will happen automatically with the game_started event
     } catch (err) {
       console.error('Error starting game:', err);
       setError(err instanceof Error ? err.message : 'Failed to start game');
@@ -185,6 +235,196 @@ export default function Lobby() {
     }
   };
 
+  const handleSettingChange = (key: Exclude<keyof GameSettings, 'roundPlan' | 'topicFilter' | 'adjudication'>, value: string) => {
+    if (!settings) return;
+
+    setSettingsSaved(false);
+    setSettings({
+      ...settings,
+      [key]: key === 'roundMix' || key === 'dictionaryCheck' ? value : parseInt(value, 10) || 0,
+    });
+  };
+
+  const handleAdjudicationChange = (adjudication: boolean) => {
+    if (!settings) return;
+
+    setSettingsSaved(false);
+    setSettings({ ...settings, adjudication });
+  };
+
+  const handleTopicFilterChange = (changes: Partial<TopicFilter>) => {
+    if (!settings) return;
+
+    setSettingsSaved(false);
+    setSettings({
+      ...settings,
+      topicFilter: { ...settings.topicFilter, ...changes },
+    });
+  };
+
+  // Cycle a tag through any -> include -> exclude -> any
+  const handleTopicTagClick = (tag: string) => {
+    if (!settings) return;
+
+    const { includeTags, excludeTags } = settings.topicFilter;
+
+    if (includeTags.includes(tag)) {
+      handleTopicFilterChange({
+        includeTags: includeTags.filter(t => t !== tag),
+        excludeTags: [...excludeTags, tag],
+      });
+    } else if (excludeTags.includes(tag)) {
+      handleTopicFilterChange({ excludeTags: excludeTags.filter(t => t !== tag) });
+    } else {
+      handleTopicFilterChange({ includeTags: [...includeTags, tag] });
+    }
+  };
+
+  const handleRoundPlanChange = (roundPlan: RoundPlanEntry[]) => {
+    if (!settings) return;
+
+    setSettingsSaved(false);
+    setSettings({
+      ...settings,
+      roundPlan,
+      // A round plan decides how many rounds are played
+      roundCount: roundPlan.length > 0 ? roundPlan.length : settings.roundCount,
+    });
+  };
+
+  const handleAddPlannedRound = () => {
+    if (!settings) return;
+
+    const roundTypes = getRoundTypes();
+    const type = roundTypes[(settings.roundPlan.length + 1) % roundTypes.length];
+    handleRoundPlanChange([...settings.roundPlan, { type }]);
+  };
+
+  const handleRemovePlannedRound = (index: number) => {
+    if (!settings) return;
+
+    handleRoundPlanChange(settings.roundPlan.filter((_, i) => i !== index));
+  };
+
+  const handlePlannedRoundChange = (index: number, entry: RoundPlanEntry) => {
+    if (!settings) return;
+
+    handleRoundPlanChange(settings.roundPlan.map((current, i) => (i === index ? entry : current)));
+  };
+
+  const handleTogglePack = async (packId: string) => {
+    if (!isHost || !game || updatingPacks) return;
+
+    const topicPackIds = selectedPackIds.includes(packId)
+      ? selectedPackIds.filter(id => id !== packId)
+      : [...selectedPackIds, packId];
+
+    setUpdatingPacks(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/games/topic-packs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameId: game.id,
+          playerId: currentPlayer?.id,
+          topicPackIds,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details ? `${data.error}: ${data.details.join(', ')}` : data.error || 'Failed to update topic packs');
+      }
+
+      setGame(data.game);
+    } catch (err) {
+      console.error('Error updating topic packs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update topic packs');
+    } finally {
+      setUpdatingPacks(false);
+    }
+  };
+
+  const handleUploadPack = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!isHost || !file || updatingPacks) return;
+
+    setUpdatingPacks(true);
+    setError('');
+
+    try {
+      let pack: unknown;
+      try {
+        pack = JSON.parse(await file.text());
+      } catch {
+        throw new Error('Topic pack file is not valid JSON');
+      }
+
+      const response = await fetch('/api/topic-packs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ pack }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details ? `${data.error}: ${data.details.join(', ')}` : data.error || 'Failed to upload topic pack');
+      }
+
+      setTopicPacks(current => [...current, data.pack]);
+    } catch (err) {
+      console.error('Error uploading topic pack:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload topic pack');
+    } finally {
+      setUpdatingPacks(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!isHost || !settings || savingSettings) return;
+
+    setSavingSettings(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/games/settings', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          gameId: game?.id,
+          playerId: currentPlayer?.id,
+          settings,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details ? data.details.join(', ') : data.error || 'Failed to save settings');
+      }
+
+      setGame(data.game);
+      setSettings(data.settings);
+      setSettingsSaved(true);
+    } catch (err) {
+      console.error('Error saving settings:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
   const copyGameCode = () => {
     if (typeof code === 'string') {
       navigator.clipboard.writeText(code);
@@ -243,6 +483,250 @@ export default function Lobby() {
               </p>
             </div>
 
+            {settings && (
+              <div className="mb-6">
+                <h2 className="text-lg font-semibold text-gray-800 mb-3">Game Settings</h2>
+                <div className="grid grid-cols-2 gap-3">
+                  {(Object.keys(GAME_SETTINGS_LIMITS) as (keyof typeof GAME_SETTINGS_LIMITS)[]).map((key) => (
+                    <label key={key} className="block">
+                      <span className="text-sm text-gray-600">{SETTING_LABELS[key]}</span>
+                      <input
+                        type="number"
+                        min={GAME_SETTINGS_LIMITS[key].min}
+                        max={GAME_SETTINGS_LIMITS[key].max}
+                        value={settings[key]}
+                        onChange={(e) => handleSettingChange(key, e.target.value)}
+                        disabled={!isHost || savingSettings || (key === 'roundCount' && settings.roundPlan.length > 0)}
+                        className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                      />
+                    </label>
+                  ))}
+                  <label className="block col-span-2">
+                    <span className="text-sm text-gray-600">Round types</span>
+                    <select
+                      value={settings.roundMix}
+                      onChange={(e) => handleSettingChange('roundMix', e.target.value)}
+                      disabled={!isHost || savingSettings || settings.roundPlan.length > 0}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                    >
+                      {ROUND_MIX_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block col-span-2">
+                    <span className="text-sm text-gray-600">Topic word lists</span>
+                    <select
+                      value={settings.dictionaryCheck}
+                      onChange={(e) => handleSettingChange('dictionaryCheck', e.target.value)}
+                      disabled={!isHost || savingSettings}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                    >
+                      {DICTIONARY_CHECK_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center col-span-2">
+                    <input
+                      type="checkbox"
+                      checked={settings.adjudication}
+                      onChange={(e) => handleAdjudicationChange(e.target.checked)}
+                      disabled={!isHost || savingSettings}
+                      className="mr-2"
+                    />
+                    <span className="text-sm text-gray-600">
+                      Let players contest words (strike or merge them) before each round is scored
+                    </span>
+                  </label>
+                </div>
+                <div className="mt-4">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Topic Filter</h3>
+                  {topicTags.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {topicTags.map((tag) => {
+                        const included = settings.topicFilter.includeTags.includes(tag);
+                        const excluded = settings.topicFilter.excludeTags.includes(tag);
+
+                        return (
+                          <button
+                            key={tag}
+                            onClick={() => handleTopicTagClick(tag)}
+                            disabled={!isHost || savingSettings}
+                            title={included ? 'Only topics with this tag' : excluded ? 'No topics with this tag' : 'Any topics'}
+                            className={`px-2 py-1 rounded-full text-xs border ${
+                              included
+                                ? 'bg-green-100 border-green-400 text-green-800'
+                                : excluded
+                                  ? 'bg-red-100 border-red-400 text-red-800 line-through'
+                                  : 'bg-white border-gray-300 text-gray-600'
+                            }`}
+                          >
+                            {tag}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-3">
+                    {(['minDifficulty', 'maxDifficulty'] as const).map((key) => (
+                      <label key={key} className="block">
+                        <span className="text-sm text-gray-600">{key === 'minDifficulty' ? 'Easiest topics' : 'Hardest topics'}</span>
+                        <select
+                          value={settings.topicFilter[key]}
+                          onChange={(e) => handleTopicFilterChange({ [key]: e.target.value as TopicDifficulty })}
+                          disabled={!isHost || savingSettings}
+                          className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+                        >
+                          {TOPIC_DIFFICULTIES.map((difficulty) => (
+                            <option key={difficulty} value={difficulty}>
+                              {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="mt-4">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Round Plan</h3>
+                  {settings.roundPlan.length === 0 && (
+                    <p className="text-sm text-gray-500 mb-2">
+                      No plan yet. Rounds follow the round types setting with random topics.
+                    </p>
+                  )}
+                  <ol className="space-y-2">
+                    {settings.roundPlan.map((entry, index) => {
+                      const pool = gameTopics[getScoringRule(entry.type)?.topicPool || 'match'] || [];
+                      const poolTags = Array.from(new Set(pool.flatMap(topic => topic.tags || []))).sort();
+
+                      return (
+                        <li key={index} className="flex items-center gap-2">
+                          <span className="w-6 text-sm text-gray-500">{index + 1}.</span>
+                          <select
+                            value={entry.type}
+                            onChange={(e) => handlePlannedRoundChange(index, { type: e.target.value })}
+                            disabled={!isHost || savingSettings}
+                            className="px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-50"
+                          >
+                            {getRoundTypes().map((type) => (
+                              <option key={type} value={type}>
+                                {getScoringRule(type)?.copy.title || type}
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            value={entry.topicId || ''}
+                            onChange={(e) => handlePlannedRoundChange(index, { type: entry.type, topicId: e.target.value || undefined })}
+                            disabled={!isHost || savingSettings}
+                            className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-50"
+                          >
+                            <option value="">Random topic</option>
+                            {pool.map((topic) => (
+                              <option key={topic.id} value={topic.id}>
+                                {topic.name}
+                              </option>
+                            ))}
+                          </select>
+                          <select
+                            value={entry.topicTag || ''}
+                            onChange={(e) => handlePlannedRoundChange(index, { type: entry.type, topicTag: e.target.value || undefined })}
+                            disabled={!isHost || savingSettings || !!entry.topicId}
+                            className="w-32 px-2 py-1 border border-gray-300 rounded-md text-sm disabled:bg-gray-50"
+                          >
+                            <option value="">Any tag</option>
+                            {poolTags.map((tag) => (
+                              <option key={tag} value={tag}>
+                                {tag}
+                              </option>
+                            ))}
+                          </select>
+                          {isHost && (
+                            <button
+                              onClick={() => handleRemovePlannedRound(index)}
+                              disabled={savingSettings}
+                              className="text-sm text-red-600 hover:text-red-800"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                  {isHost && settings.roundPlan.length < GAME_SETTINGS_LIMITS.roundCount.max && (
+                    <button
+                      onClick={handleAddPlannedRound}
+                      disabled={savingSettings}
+                      className="mt-2 text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      + Add round
+                    </button>
+                  )}
+                </div>
+                {isHost && (
+                  <button
+                    onClick={handleSaveSettings}
+                    disabled={savingSettings}
+                    className="mt-3 w-full py-2 px-4 rounded-md font-medium bg-gray-200 hover:bg-gray-300 text-gray-800 transition duration-200"
+                  >
+                    {savingSettings ? 'Saving...' : settingsSaved ? 'Settings Saved' : 'Save Settings'}
+                  </button>
+                )}
+              </div>
+            )}
+
+            <div className="mb-6">
+              <h2 className="text-lg font-semibold text-gray-800 mb-3">Topic Packs</h2>
+              {topicPacks.length === 0 ? (
+                <p className="text-sm text-gray-500 mb-2">No topic packs uploaded yet. Rounds use the built-in topics.</p>
+              ) : (
+                <ul className="space-y-2 mb-2">
+                  {topicPacks.map((pack) => (
+                    <li key={pack.id}>
+                      <label className="flex items-start gap-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedPackIds.includes(pack.id)}
+                          onChange={() => handleTogglePack(pack.id)}
+                          disabled={!isHost || updatingPacks}
+                          className="mt-1"
+                        />
+                        <span>
+                          <span className="font-medium text-gray-800">{pack.name}</span>
+                          <span className="text-sm text-gray-500">
+                            {' '}({pack.topics.match.length} match, {pack.topics.unmatch.length} unmatch topics)
+                          </span>
+                          {pack.description && (
+                            <span className="block text-sm text-gray-500">{pack.description}</span>
+                          )}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {selectedPackIds.length === 0 && topicPacks.length > 0 && (
+                <p className="text-sm text-gray-500 mb-2">No packs selected. Rounds use the built-in topics.</p>
+              )}
+              {isHost && (
+                <label className="block text-sm text-blue-600 hover:text-blue-800 cursor-pointer">
+                  {updatingPacks ? 'Updating topic packs...' : '+ Upload topic pack (JSON)'}
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleUploadPack}
+                    disabled={updatingPacks}
+                    className="hidden"
+                  />
+                </label>
+              )}
+            </div>
+
             <div className="mb-6">
               <h2 className="text-lg font-semibold text-gray-800 mb-3">Players ({players.length})</h2>
               <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md">
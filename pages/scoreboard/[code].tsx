@@ -5,6 +5,8 @@ import Link from 'next/link';
 import Head from 'next/head';
 import styles from '../../styles/Scoreboard.module.css';
 import confetti from 'canvas-confetti';
+import { useGameEvents } from '../../hooks/useGameEvents';
+import { GAME_STATUS_LABELS, GameStatus } from '../../lib/gameState';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -24,7 +26,7 @@ interface Player {
 interface Game {
   id: string;
   code: string;
-  status: string;
+  status: GameStatus;
   created_at: string;
   round_count: number;
   current_round: number;
@@ -38,6 +40,21 @@ export default function Scoreboard() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentPlayer, setCurrentPlayer] = useState<Player | null>(null);
+  const [gameId, setGameId] = useState<string | null>(null);
+  const [gameStatus, setGameStatus] = useState<GameStatus | null>(null);
+
+  // Load the players of a game, highest score first
+  const fetchPlayers = async (id: string): Promise<Player[]> => {
+    const { data: playersData, error: playersError } = await supabase
+      .from('players')
+      .select('*')
+      .eq('game_id', id)
+      .order('score', { ascending: false });
+
+    if (playersError) throw playersError;
+
+    return playersData;
+  };
 
   // Load game and players data
   useEffect(() => {
@@ -54,16 +71,9 @@ export default function Scoreboard() {
           
         if (gameError) throw gameError;
         
-        // Get all players in the game
-        const { data: playersData, error: playersError } = await supabase
-          .from('players')
-          .select('*')
-          .eq('game_id', gameData.id)
-          .order('score', { ascending: false });
-          
-        if (playersError) throw playersError;
-        
-        setPlayers(playersData);
+        setGameId(gameData.id);
+        setGameStatus(gameData.status);
+        setPlayers(await fetchPlayers(gameData.id));
         setLoading(false);
       } catch (error) {
         console.error('Error fetching scoreboard:', error);
@@ -77,6 +87,19 @@ export default function Scoreboard() {
     }
   }, [code, supabase]);
 
+  // Reload the scores when the game's rounds are re-scored
+  useGameEvents(gameId, {
+    scores_updated: async () => {
+      if (!gameId) return;
+
+      try {
+        setPlayers(await fetchPlayers(gameId));
+      } catch (error) {
+        console.error('Error reloading scores:', error);
+      }
+    }
+  });
+
   // Confetti effect for winners
   const triggerWinnerConfetti = () => {
     const duration = 5 * 1000;
@@ -156,7 +179,9 @@ export default function Scoreboard() {
       </Head>
       
       <div className={styles.scoreboardContainer}>
-        <h1 className={styles.title}>Game Over!</h1>
+        <h1 className={styles.title}>
+          {gameStatus === 'abandoned' ? `${GAME_STATUS_LABELS.abandoned}!` : 'Game Over!'}
+        </h1>
         <h2 className={styles.subtitle}>Final Scores</h2>
         
         <div className={styles.scoreboardWrapper}>
@@ -0,0 +1,181 @@
+// Topic registry shared by the Next.js routes and the Supabase edge functions.
+// It lives in supabase/functions/_shared so that it is deployed with the edge
+// functions, and has no imports so that Deno can load it directly. Next.js
+// imports it through lib/topicRegistry.ts. Topics are stored in the topics
+// table, which is seeded from data/topics.json.
+
+// Define types
+export type TopicDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface Topic {
+  id: string;
+  name: string;
+  description: string;
+  aliases?: string[][]; // groups of equivalent answers, the first entry is the canonical form
+  tags?: string[]; // labels a round plan can use to pick a topic
+  difficulty?: TopicDifficulty;
+}
+
+export interface TopicsCollection {
+  match: Topic[];
+  unmatch: Topic[];
+}
+
+export type TopicPool = keyof TopicsCollection;
+
+// A row of the topics table
+export interface TopicRow {
+  id: string;
+  name: string;
+  description: string;
+  pool: TopicPool;
+  tags: string[];
+  aliases: string[][];
+  difficulty: TopicDifficulty;
+  active: boolean; // archived topics are kept for old rounds but no longer played
+}
+
+// Topic pools every topic collection must define
+export const TOPIC_POOLS: TopicPool[] = ['match', 'unmatch'];
+
+// Difficulty levels a topic can have
+export const TOPIC_DIFFICULTIES: TopicDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Check whether a value is an array of non-empty strings
+ */
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '');
+}
+
+/**
+ * Validate raw topic data
+ *
+ * Every pool must be an array of topics with a non-empty id, name and
+ * description. Ids must be unique within a pool and may not be shared between
+ * the match and unmatch pools.
+ *
+ * @param data Raw topic data, such as data/topics.json or an uploaded topic pack
+ * @returns A list of validation errors, empty when the data is valid
+ */
+export function validateTopics(data: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object') {
+    return ['Topic data must be an object'];
+  }
+
+  const collection = data as Record<string, unknown>;
+  const poolById = new Map<string, TopicPool>();
+
+  TOPIC_POOLS.forEach(pool => {
+    const poolTopics = collection[pool];
+
+    if (!Array.isArray(poolTopics)) {
+      errors.push(`The ${pool} pool must be an array`);
+      return;
+    }
+
+    poolTopics.forEach((value, index) => {
+      const topic = (value || {}) as Record<string, unknown>;
+      const label = typeof topic.id === 'string' && topic.id ? `Topic "${topic.id}"` : `${pool} topic ${index + 1}`;
+
+      (['id', 'name', 'description'] as const).forEach(field => {
+        if (typeof topic[field] !== 'string' || (topic[field] as string).trim() === '') {
+          errors.push(`${label} needs a ${field}`);
+        }
+      });
+
+      if (topic.aliases !== undefined && !(Array.isArray(topic.aliases) && topic.aliases.every(isStringList))) {
+        errors.push(`${label} has aliases that are not lists of words`);
+      }
+
+      if (topic.tags !== undefined && !isStringList(topic.tags)) {
+        errors.push(`${label} has tags that are not a list of words`);
+      }
+
+      if (topic.difficulty !== undefined && !TOPIC_DIFFICULTIES.includes(topic.difficulty as TopicDifficulty)) {
+        errors.push(`${label} has a difficulty that is not one of: ${TOPIC_DIFFICULTIES.join(', ')}`);
+      }
+
+      if (typeof topic.id !== 'string' || !topic.id) return;
+
+      const existingPool = poolById.get(topic.id);
+      if (existingPool === pool) {
+        errors.push(`${label} appears more than once in the ${pool} pool`);
+      } else if (existingPool) {
+        errors.push(`${label} appears in both the ${existingPool} and ${pool} pools`);
+      } else {
+        poolById.set(topic.id, pool);
+      }
+    });
+  });
+
+  return errors;
+}
+
+/**
+ * Validate raw topic data and return it as a topic collection
+ *
+ * Call this once when a module loads so that bad topic data stops the server
+ * or edge function at startup instead of failing in the middle of a game.
+ *
+ * @param data Raw topic data, usually parsed from data/topics.json
+ * @returns The validated topics
+ * @throws Error listing every problem when the data is invalid
+ */
+export function loadTopics(data: unknown): TopicsCollection {
+  const errors = validateTopics(data);
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid topic data: ${errors.join('; ')}`);
+  }
+
+  return data as TopicsCollection;
+}
+
+/**
+ * Group rows of the topics table into a topic collection
+ *
+ * @param rows Rows from the topics table
+ * @returns The topics of each pool, in the order of the rows
+ */
+export function fromTopicRows(rows: TopicRow[]): TopicsCollection {
+  const collection: TopicsCollection = { match: [], unmatch: [] };
+
+  rows.forEach(row => {
+    if (!collection[row.pool]) return;
+
+    collection[row.pool].push({
+      id: row.id,
+      name: row.name,
+      description: row.description,
+      aliases: row.aliases || [],
+      tags: row.tags || [],
+      difficulty: row.difficulty
+    });
+  });
+
+  return collection;
+}
+
+/**
+ * Convert a topic into a row of the topics table
+ *
+ * @param topic The topic
+ * @param pool The pool the topic belongs to
+ * @param active Whether the topic can be played, defaults to true
+ * @returns Values to insert into the topics table
+ */
+export function toTopicRow(topic: Topic, pool: TopicPool, active = true): TopicRow {
+  return {
+    id: topic.id,
+    name: topic.name,
+    description: topic.description,
+    pool,
+    tags: topic.tags || [],
+    aliases: topic.aliases || [],
+    difficulty: topic.difficulty || 'medium',
+    active
+  };
+}
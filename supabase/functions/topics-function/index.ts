@@ -1,45 +1,12 @@
 // Follow Deno's module import pattern
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.0';
+import { fromTopicRows, TopicRow } from '../_shared/topicRegistry.ts';
 
-// Define topic interface
-interface Topic {
-  id: string;
-  name: string;
-  description: string;
-}
-
-interface TopicsCollection {
-  match: Topic[];
-  unmatch: Topic[];
-}
-
-// Define all game topics
-const topics: TopicsCollection = {
-  match: [
-    { id: 'animals', name: 'Animals', description: 'Think of animals from around the world' },
-    { id: 'countries', name: 'Countries', description: 'Name countries from any continent' },
-    { id: 'food', name: 'Food', description: 'List different types of food and dishes' },
-    { id: 'sports', name: 'Sports', description: 'Name sports played around the world' },
-    { id: 'movies', name: 'Movies', description: 'Think of movie titles from any genre or era' },
-    { id: 'professions', name: 'Professions', description: 'List different jobs and career paths' },
-    { id: 'cities', name: 'Cities', description: 'Name cities from around the world' },
-    { id: 'musical_instruments', name: 'Musical Instruments', description: 'List instruments used to make music' },
-    { id: 'hobbies', name: 'Hobbies', description: 'Think of activities people do for fun' },
-    { id: 'famous_people', name: 'Famous People', description: 'Name well-known celebrities, historical figures, or public personalities' }
-  ],
-  unmatch: [
-    { id: 'emotions', name: 'Emotions', description: 'List different feelings and emotional states' },
-    { id: 'colors', name: 'Colors', description: 'Name different colors and shades' },
-    { id: 'weather', name: 'Weather Phenomena', description: 'Think of different weather conditions and events' },
-    { id: 'body_parts', name: 'Body Parts', description: 'List different parts of the human body' },
-    { id: 'transportation', name: 'Transportation', description: 'Name different modes of transportation' },
-    { id: 'furniture', name: 'Furniture', description: 'Think of items found in homes and offices' },
-    { id: 'school_subjects', name: 'School Subjects', description: 'List academic subjects taught in schools' },
-    { id: 'clothing', name: 'Clothing Items', description: 'Name different articles of clothing' },
-    { id: 'nature', name: 'Nature', description: 'Think of natural elements, landscapes, and phenomena' },
-    { id: 'technology', name: 'Technology', description: 'List gadgets, devices, and technological concepts' }
-  ]
-};
+// Create a Supabase client to read the topics table
+const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY') || '';
+const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
 serve(async (req: Request) => {
   // Enable CORS
@@ -57,8 +24,22 @@ serve(async (req: Request) => {
 
   // Handle GET request
   if (req.method === 'GET') {
-    // Return all topics
-    return new Response(JSON.stringify(topics), { headers });
+    // Return all active topics from the topics table
+    const { data, error } = await supabase
+      .from('topics')
+      .select('id, name, description, pool, tags, aliases, difficulty, active')
+      .eq('active', true)
+      .order('name');
+
+    if (error) {
+      console.error('Error loading topics:', error);
+      return new Response(JSON.stringify({ error: 'Failed to load topics' }), {
+        status: 500,
+        headers
+      });
+    }
+
+    return new Response(JSON.stringify(fromTopicRows((data || []) as TopicRow[])), { headers });
   }
 
   // Return 405 Method Not Allowed for other request methods
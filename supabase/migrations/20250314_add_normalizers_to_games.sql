@@ -0,0 +1,3 @@
+-- Add normalizers column to games table
+-- Lists the word normalizers applied when comparing submissions for scoring
+ALTER TABLE games ADD COLUMN IF NOT EXISTS normalizers TEXT[] DEFAULT ARRAY['diacritics', 'punctuation', 'articles', 'plurals'];
@@ -0,0 +1,3 @@
+-- Add submitted_words column to round_scores table
+-- Stores each word as the player typed it alongside its canonical form, e.g. [{"typed": "Cougar", "canonical": "puma"}]
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS submitted_words JSONB DEFAULT '[]'::jsonb;
@@ -0,0 +1,21 @@
+-- Create round_types table so rounds.type is driven by the registered scoring rules
+-- Rows are kept in sync with the scoring rule registry by syncRoundTypes() in lib/scoreCalculator.ts
+CREATE TABLE IF NOT EXISTS round_types (
+  type VARCHAR(50) PRIMARY KEY,
+  title VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Seed the built-in round types
+INSERT INTO round_types (type, title) VALUES
+  ('match', 'Match Words Round'),
+  ('unmatch', 'Unmatch Words Round')
+ON CONFLICT (type) DO NOTHING;
+
+ALTER TABLE round_types DISABLE ROW LEVEL SECURITY;
+
+-- Replace the hard-coded CHECK constraint with a reference to round_types
+ALTER TABLE rounds DROP CONSTRAINT IF EXISTS rounds_type_check;
+ALTER TABLE rounds ALTER COLUMN type TYPE VARCHAR(50);
+ALTER TABLE rounds
+  ADD CONSTRAINT rounds_type_fkey FOREIGN KEY (type) REFERENCES round_types(type);
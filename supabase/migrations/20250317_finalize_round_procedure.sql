@@ -0,0 +1,78 @@
+-- Add the columns written for each round score
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS matched_words TEXT[] DEFAULT '{}';
+ALTER TABLE round_scores ADD COLUMN IF NOT EXISTS bonus_awarded BOOLEAN DEFAULT FALSE;
+
+-- Create a function to finalize a round in a single transaction
+-- Locks the round, refuses to score a round that has already ended, and writes
+-- every round score and player total before marking the round as ended.
+-- p_scores is a JSON array of
+-- { player_id, score, matched_words, bonus_awarded, submitted_words }
+CREATE OR REPLACE FUNCTION finalize_round(p_round_id UUID, p_scores JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_end_time TIMESTAMP WITH TIME ZONE;
+  v_finalized BOOLEAN := FALSE;
+  v_score JSONB;
+BEGIN
+  -- Lock the round so concurrent calls are handled one at a time
+  SELECT end_time INTO v_end_time
+  FROM rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round % not found', p_round_id;
+  END IF;
+
+  -- Only score rounds that have not ended yet
+  IF v_end_time IS NULL THEN
+    FOR v_score IN SELECT * FROM jsonb_array_elements(COALESCE(p_scores, '[]'::jsonb))
+    LOOP
+      -- Save detailed score to round_scores table
+      INSERT INTO round_scores (
+        round_id,
+        player_id,
+        score,
+        matched_words,
+        bonus_awarded,
+        submitted_words
+      ) VALUES (
+        p_round_id,
+        (v_score->>'player_id')::UUID,
+        (v_score->>'score')::INTEGER,
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_score->'matched_words', '[]'::jsonb))),
+        COALESCE((v_score->>'bonus_awarded')::BOOLEAN, FALSE),
+        COALESCE(v_score->'submitted_words', '[]'::jsonb)
+      );
+
+      -- Update player's total score
+      UPDATE players
+      SET score = score + (v_score->>'score')::INTEGER
+      WHERE id = (v_score->>'player_id')::UUID;
+    END LOOP;
+
+    -- Mark the round as ended
+    UPDATE rounds
+    SET end_time = NOW()
+    WHERE id = p_round_id;
+
+    v_finalized := TRUE;
+  END IF;
+
+  -- Return the stored scores, whether they were just written or already existed
+  RETURN jsonb_build_object(
+    'finalized', v_finalized,
+    'scores', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'player_id', rs.player_id,
+        'score', rs.score,
+        'matched_words', to_jsonb(COALESCE(rs.matched_words, '{}')),
+        'bonus_awarded', COALESCE(rs.bonus_awarded, FALSE),
+        'submitted_words', COALESCE(rs.submitted_words, '[]'::jsonb)
+      ))
+      FROM round_scores rs
+      WHERE rs.round_id = p_round_id
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql;
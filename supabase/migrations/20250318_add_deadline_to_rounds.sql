@@ -0,0 +1,14 @@
+-- Add deadline column to rounds table
+-- The server-side deadline after which a round is closed, based on the game's time_per_round
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS deadline TIMESTAMP WITH TIME ZONE;
+
+-- Backfill deadlines for existing rounds
+UPDATE rounds
+SET deadline = rounds.start_time + make_interval(secs => COALESCE(games.time_per_round, 60))
+FROM games
+WHERE rounds.game_id = games.id
+  AND rounds.deadline IS NULL
+  AND rounds.start_time IS NOT NULL;
+
+-- Index for finding open rounds that are past their deadline
+CREATE INDEX IF NOT EXISTS idx_rounds_open_deadline ON rounds(deadline) WHERE end_time IS NULL;
@@ -0,0 +1,6 @@
+-- Add configurable settings to games table
+-- round_count, time_per_round and max_players already exist; the host edits them in the lobby
+ALTER TABLE games ADD COLUMN IF NOT EXISTS words_per_round INTEGER DEFAULT 5;
+
+-- How round types are chosen: 'alternate', 'random', 'match' or 'unmatch'
+ALTER TABLE games ADD COLUMN IF NOT EXISTS round_mix VARCHAR(20) DEFAULT 'alternate';
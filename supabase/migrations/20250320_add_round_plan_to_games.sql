@@ -0,0 +1,5 @@
+-- Migration: Add round plan to games
+-- The round plan is an ordered list of { type, topicId?, topicTag? } entries chosen by the host.
+-- When it is empty, rounds follow the game's round mix and use random topics.
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS round_plan JSONB DEFAULT '[]'::jsonb;
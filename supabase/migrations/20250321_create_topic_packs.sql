@@ -0,0 +1,15 @@
+-- Migration: Create topic packs
+-- Hosts upload themed topic packs through /api/topic-packs and attach them to a game in the lobby.
+-- topics holds the same { match: [...], unmatch: [...] } shape as data/topics.json.
+
+CREATE TABLE IF NOT EXISTS topic_packs (
+  id VARCHAR(50) PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  version INTEGER NOT NULL DEFAULT 1,
+  topics JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Packs chosen for each game; an empty list means the built-in topics
+ALTER TABLE games ADD COLUMN IF NOT EXISTS topic_pack_ids TEXT[] DEFAULT '{}';
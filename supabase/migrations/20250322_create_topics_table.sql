@@ -0,0 +1,45 @@
+-- Migration: Create topics table
+-- Topics are managed through the admin routes under /api/topics.
+-- The table starts with the topics of data/topics.json, so games can start
+-- right away. POST /api/topics/seed loads topics added to the file later.
+
+CREATE TABLE IF NOT EXISTS topics (
+  id VARCHAR(50) PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL,
+  pool VARCHAR(10) NOT NULL CHECK (pool IN ('match', 'unmatch')),
+  tags TEXT[] DEFAULT '{}',
+  aliases JSONB DEFAULT '[]'::jsonb,
+  difficulty VARCHAR(10) NOT NULL DEFAULT 'medium' CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Rounds are created from the active topics of a pool
+CREATE INDEX IF NOT EXISTS idx_topics_pool_active ON topics(pool) WHERE active;
+
+-- Seed the topics of data/topics.json, keeping any topic that already exists
+INSERT INTO topics (id, name, description, pool, tags, aliases, difficulty)
+VALUES
+  ('animals', 'Animals', 'Think of animals from around the world', 'match', ARRAY['nature', 'kids']::TEXT[], '[["puma","cougar","mountain lion","panther"],["orca","killer whale"]]'::jsonb, 'easy'),
+  ('countries', 'Countries', 'Name countries from any continent', 'match', ARRAY['geography']::TEXT[], '[["united states","usa","us","united states of america","america"],["united kingdom","uk","great britain","britain"],["netherlands","holland"],["czech republic","czechia"]]'::jsonb, 'medium'),
+  ('food', 'Food', 'List different types of food and dishes', 'match', ARRAY['everyday', 'kids']::TEXT[], '[]'::jsonb, 'easy'),
+  ('sports', 'Sports', 'Name sports played around the world', 'match', ARRAY['sports', 'pop-culture']::TEXT[], '[]'::jsonb, 'medium'),
+  ('movies', 'Movies', 'Think of movie titles from any genre or era', 'match', ARRAY['pop-culture']::TEXT[], '[]'::jsonb, 'medium'),
+  ('professions', 'Professions', 'List different jobs and career paths', 'match', ARRAY['everyday']::TEXT[], '[]'::jsonb, 'medium'),
+  ('cities', 'Cities', 'Name cities from around the world', 'match', ARRAY['geography']::TEXT[], '[]'::jsonb, 'medium'),
+  ('musical_instruments', 'Musical Instruments', 'List instruments used to make music', 'match', ARRAY['music']::TEXT[], '[]'::jsonb, 'medium'),
+  ('hobbies', 'Hobbies', 'Think of activities people do for fun', 'match', ARRAY['everyday']::TEXT[], '[]'::jsonb, 'easy'),
+  ('famous_people', 'Famous People', 'Name well-known celebrities, historical figures, or public personalities', 'match', ARRAY['pop-culture', 'history']::TEXT[], '[]'::jsonb, 'hard'),
+  ('emotions', 'Emotions', 'List different feelings and emotional states', 'unmatch', ARRAY['everyday', 'kids']::TEXT[], '[]'::jsonb, 'medium'),
+  ('colors', 'Colors', 'Name different colors and shades', 'unmatch', ARRAY['kids', 'art']::TEXT[], '[]'::jsonb, 'easy'),
+  ('weather', 'Weather Phenomena', 'Think of different weather conditions and events', 'unmatch', ARRAY['nature', 'science']::TEXT[], '[]'::jsonb, 'medium'),
+  ('body_parts', 'Body Parts', 'List different parts of the human body', 'unmatch', ARRAY['science', 'kids']::TEXT[], '[]'::jsonb, 'easy'),
+  ('transportation', 'Transportation', 'Name different modes of transportation', 'unmatch', ARRAY['everyday', 'kids']::TEXT[], '[]'::jsonb, 'easy'),
+  ('furniture', 'Furniture', 'Think of items found in homes and offices', 'unmatch', ARRAY['everyday']::TEXT[], '[]'::jsonb, 'medium'),
+  ('school_subjects', 'School Subjects', 'List academic subjects taught in schools', 'unmatch', ARRAY['education', 'kids']::TEXT[], '[]'::jsonb, 'medium'),
+  ('clothing', 'Clothing Items', 'Name different articles of clothing', 'unmatch', ARRAY['everyday', 'kids']::TEXT[], '[]'::jsonb, 'easy'),
+  ('nature', 'Nature', 'Think of natural elements, landscapes, and phenomena', 'unmatch', ARRAY['nature', 'geography']::TEXT[], '[]'::jsonb, 'medium'),
+  ('technology', 'Technology', 'List gadgets, devices, and technological concepts', 'unmatch', ARRAY['science', 'pop-culture']::TEXT[], '[]'::jsonb, 'hard')
+ON CONFLICT (id) DO NOTHING;
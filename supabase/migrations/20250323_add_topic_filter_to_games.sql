@@ -0,0 +1,5 @@
+-- Migration: Add topic filter to games
+-- { includeTags, excludeTags, minDifficulty, maxDifficulty } chosen by the host in the lobby.
+-- Random topic picks only use topics that pass the filter; missing fields use the defaults in lib/topicFilter.ts.
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS topic_filter JSONB DEFAULT '{}'::jsonb;
@@ -0,0 +1,25 @@
+-- Migration: Create topic votes
+-- Before a round with a random topic starts, players vote on a few candidate topics.
+-- While the vote is open the round has topic_candidates and vote_deadline but no topic,
+-- start_time or deadline; closing the vote fills those in and starts the round.
+
+ALTER TABLE rounds ALTER COLUMN topic DROP NOT NULL;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS topic_candidates JSONB;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS vote_deadline TIMESTAMP WITH TIME ZONE;
+
+-- One vote per player per round, changed by voting again
+CREATE TABLE IF NOT EXISTS topic_votes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  game_id UUID REFERENCES games(id) ON DELETE CASCADE,
+  round_id UUID REFERENCES rounds(id) ON DELETE CASCADE,
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  topic_id VARCHAR(50) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(round_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_topic_votes_round_id ON topic_votes(round_id);
+
+-- Index for finding open votes that are past their deadline
+CREATE INDEX IF NOT EXISTS idx_rounds_open_vote_deadline ON rounds(vote_deadline) WHERE topic_id IS NULL;
@@ -0,0 +1,7 @@
+-- Add reveal deadline column to rounds table
+-- After a round ends its results are revealed until the host advances or this deadline
+-- passes; it is cleared once the next round starts
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS reveal_deadline TIMESTAMP WITH TIME ZONE;
+
+-- Index for finding reveals that are past their deadline
+CREATE INDEX IF NOT EXISTS idx_rounds_reveal_deadline ON rounds(reveal_deadline) WHERE reveal_deadline IS NOT NULL;
@@ -0,0 +1,128 @@
+-- Migration: Create round score ledger
+-- Every point a player scores in a round is recorded with the word it was scored for,
+-- so reveals, exports and re-scoring can read exact records instead of recomputing.
+
+CREATE TABLE IF NOT EXISTS round_score_ledger (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  round_id UUID REFERENCES rounds(id) ON DELETE CASCADE,
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  word VARCHAR(100), -- as the player typed it, NULL for the round bonus
+  normalized_word VARCHAR(100), -- the canonical form the word was scored as
+  player_ids UUID[] DEFAULT '{}', -- every player who submitted the normalized word
+  points INTEGER NOT NULL,
+  reason VARCHAR(10) NOT NULL CHECK (reason IN ('match', 'unique', 'bonus', 'penalty')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_round_score_ledger_round_id ON round_score_ledger(round_id);
+CREATE INDEX IF NOT EXISTS idx_round_score_ledger_player_id ON round_score_ledger(player_id);
+
+-- finalize_round and rescore_round write the ledger with the anon key
+ALTER TABLE round_score_ledger DISABLE ROW LEVEL SECURITY;
+
+-- Write each score's ledger along with the round score
+-- p_scores is a JSON array of
+-- { player_id, score, matched_words, bonus_awarded, submitted_words, ledger }
+-- where ledger is an array of { word, normalized_word, player_ids, points, reason }
+CREATE OR REPLACE FUNCTION finalize_round(p_round_id UUID, p_scores JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_end_time TIMESTAMP WITH TIME ZONE;
+  v_finalized BOOLEAN := FALSE;
+  v_score JSONB;
+BEGIN
+  -- Lock the round so concurrent calls are handled one at a time
+  SELECT end_time INTO v_end_time
+  FROM rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round % not found', p_round_id;
+  END IF;
+
+  -- Only score rounds that have not ended yet
+  IF v_end_time IS NULL THEN
+    FOR v_score IN SELECT * FROM jsonb_array_elements(COALESCE(p_scores, '[]'::jsonb))
+    LOOP
+      -- Save detailed score to round_scores table
+      INSERT INTO round_scores (
+        round_id,
+        player_id,
+        score,
+        matched_words,
+        bonus_awarded,
+        submitted_words
+      ) VALUES (
+        p_round_id,
+        (v_score->>'player_id')::UUID,
+        (v_score->>'score')::INTEGER,
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_score->'matched_words', '[]'::jsonb))),
+        COALESCE((v_score->>'bonus_awarded')::BOOLEAN, FALSE),
+        COALESCE(v_score->'submitted_words', '[]'::jsonb)
+      );
+
+      -- Save the words and bonus the score is made of
+      INSERT INTO round_score_ledger (
+        round_id,
+        player_id,
+        word,
+        normalized_word,
+        player_ids,
+        points,
+        reason
+      )
+      SELECT
+        p_round_id,
+        (v_score->>'player_id')::UUID,
+        entry->>'word',
+        entry->>'normalized_word',
+        ARRAY(SELECT jsonb_array_elements_text(COALESCE(entry->'player_ids', '[]'::jsonb)))::UUID[],
+        (entry->>'points')::INTEGER,
+        entry->>'reason'
+      FROM jsonb_array_elements(COALESCE(v_score->'ledger', '[]'::jsonb)) AS entry;
+
+      -- Update player's total score
+      UPDATE players
+      SET score = score + (v_score->>'score')::INTEGER
+      WHERE id = (v_score->>'player_id')::UUID;
+    END LOOP;
+
+    -- Mark the round as ended
+    UPDATE rounds
+    SET end_time = NOW()
+    WHERE id = p_round_id;
+
+    v_finalized := TRUE;
+  END IF;
+
+  -- Return the stored scores, whether they were just written or already existed
+  RETURN jsonb_build_object(
+    'finalized', v_finalized,
+    'scores', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'player_id', rs.player_id,
+        'score', rs.score,
+        'matched_words', to_jsonb(COALESCE(rs.matched_words, '{}')),
+        'bonus_awarded', COALESCE(rs.bonus_awarded, FALSE),
+        'submitted_words', COALESCE(rs.submitted_words, '[]'::jsonb),
+        'ledger', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object(
+            'round_id', l.round_id,
+            'player_id', l.player_id,
+            'word', l.word,
+            'normalized_word', l.normalized_word,
+            'player_ids', to_jsonb(COALESCE(l.player_ids, '{}')),
+            'points', l.points,
+            'reason', l.reason
+          ) ORDER BY l.normalized_word)
+          FROM round_score_ledger l
+          WHERE l.round_id = p_round_id AND l.player_id = rs.player_id
+        ), '[]'::jsonb)
+      ))
+      FROM round_scores rs
+      WHERE rs.round_id = p_round_id
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,172 @@
+-- Migration: Re-score ended rounds
+-- Adds rescore_round, which replaces an ended round's scores with scores recomputed
+-- from its submissions and rebuilds the players' totals from their round scores.
+-- Writing and reading a round's scores moves into helpers shared with finalize_round.
+
+-- Insert a round's scores and their ledger
+-- p_scores is a JSON array of
+-- { player_id, score, matched_words, bonus_awarded, submitted_words, ledger }
+-- where ledger is an array of { word, normalized_word, player_ids, points, reason }
+CREATE OR REPLACE FUNCTION save_round_scores(p_round_id UUID, p_scores JSONB)
+RETURNS VOID AS $$
+DECLARE
+  v_score JSONB;
+BEGIN
+  FOR v_score IN SELECT * FROM jsonb_array_elements(COALESCE(p_scores, '[]'::jsonb))
+  LOOP
+    -- Save detailed score to round_scores table
+    INSERT INTO round_scores (
+      round_id,
+      player_id,
+      score,
+      matched_words,
+      bonus_awarded,
+      submitted_words
+    ) VALUES (
+      p_round_id,
+      (v_score->>'player_id')::UUID,
+      (v_score->>'score')::INTEGER,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_score->'matched_words', '[]'::jsonb))),
+      COALESCE((v_score->>'bonus_awarded')::BOOLEAN, FALSE),
+      COALESCE(v_score->'submitted_words', '[]'::jsonb)
+    );
+
+    -- Save the words and bonus the score is made of
+    INSERT INTO round_score_ledger (
+      round_id,
+      player_id,
+      word,
+      normalized_word,
+      player_ids,
+      points,
+      reason
+    )
+    SELECT
+      p_round_id,
+      (v_score->>'player_id')::UUID,
+      entry->>'word',
+      entry->>'normalized_word',
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(entry->'player_ids', '[]'::jsonb)))::UUID[],
+      (entry->>'points')::INTEGER,
+      entry->>'reason'
+    FROM jsonb_array_elements(COALESCE(v_score->'ledger', '[]'::jsonb)) AS entry;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Get a round's stored scores with their ledger, in the shape save_round_scores accepts
+CREATE OR REPLACE FUNCTION get_round_scores(p_round_id UUID)
+RETURNS JSONB AS $$
+  SELECT COALESCE((
+    SELECT jsonb_agg(jsonb_build_object(
+      'player_id', rs.player_id,
+      'score', rs.score,
+      'matched_words', to_jsonb(COALESCE(rs.matched_words, '{}')),
+      'bonus_awarded', COALESCE(rs.bonus_awarded, FALSE),
+      'submitted_words', COALESCE(rs.submitted_words, '[]'::jsonb),
+      'ledger', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'round_id', l.round_id,
+          'player_id', l.player_id,
+          'word', l.word,
+          'normalized_word', l.normalized_word,
+          'player_ids', to_jsonb(COALESCE(l.player_ids, '{}')),
+          'points', l.points,
+          'reason', l.reason
+        ) ORDER BY l.normalized_word)
+        FROM round_score_ledger l
+        WHERE l.round_id = p_round_id AND l.player_id = rs.player_id
+      ), '[]'::jsonb)
+    ))
+    FROM round_scores rs
+    WHERE rs.round_id = p_round_id
+  ), '[]'::jsonb);
+$$ LANGUAGE sql STABLE;
+
+-- Same behavior as before, now built on the shared helpers
+CREATE OR REPLACE FUNCTION finalize_round(p_round_id UUID, p_scores JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_end_time TIMESTAMP WITH TIME ZONE;
+  v_finalized BOOLEAN := FALSE;
+  v_score JSONB;
+BEGIN
+  -- Lock the round so concurrent calls are handled one at a time
+  SELECT end_time INTO v_end_time
+  FROM rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round % not found', p_round_id;
+  END IF;
+
+  -- Only score rounds that have not ended yet
+  IF v_end_time IS NULL THEN
+    PERFORM save_round_scores(p_round_id, p_scores);
+
+    -- Update players' total scores
+    FOR v_score IN SELECT * FROM jsonb_array_elements(COALESCE(p_scores, '[]'::jsonb))
+    LOOP
+      UPDATE players
+      SET score = score + (v_score->>'score')::INTEGER
+      WHERE id = (v_score->>'player_id')::UUID;
+    END LOOP;
+
+    -- Mark the round as ended
+    UPDATE rounds
+    SET end_time = NOW()
+    WHERE id = p_round_id;
+
+    v_finalized := TRUE;
+  END IF;
+
+  -- Return the stored scores, whether they were just written or already existed
+  RETURN jsonb_build_object(
+    'finalized', v_finalized,
+    'scores', get_round_scores(p_round_id)
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replace the scores of an ended round and rebuild the totals of its game's players
+-- p_scores has the same shape as for finalize_round
+CREATE OR REPLACE FUNCTION rescore_round(p_round_id UUID, p_scores JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_game_id UUID;
+  v_end_time TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Lock the round so it is not finalized or re-scored at the same time
+  SELECT game_id, end_time INTO v_game_id, v_end_time
+  FROM rounds
+  WHERE id = p_round_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Round % not found', p_round_id;
+  END IF;
+
+  -- Rounds still being played are scored when they end
+  IF v_end_time IS NULL THEN
+    RAISE EXCEPTION 'Round % has not ended', p_round_id;
+  END IF;
+
+  DELETE FROM round_score_ledger WHERE round_id = p_round_id;
+  DELETE FROM round_scores WHERE round_id = p_round_id;
+
+  PERFORM save_round_scores(p_round_id, p_scores);
+
+  -- Rebuild every player's total from their round scores in the game
+  UPDATE players p
+  SET score = COALESCE((
+    SELECT SUM(rs.score)
+    FROM round_scores rs
+    JOIN rounds r ON r.id = rs.round_id
+    WHERE rs.player_id = p.id AND r.game_id = v_game_id
+  ), 0)
+  WHERE p.game_id = v_game_id;
+
+  RETURN jsonb_build_object('scores', get_round_scores(p_round_id));
+END;
+$$ LANGUAGE plpgsql;
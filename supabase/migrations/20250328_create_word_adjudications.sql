@@ -0,0 +1,39 @@
+-- Migration: Create word adjudications
+-- Games can let players contest words after submissions close and before the round
+-- is scored. While adjudication is open the round has an adjudication_deadline and
+-- the adjudication_words players can strike or merge. The host decides proposals
+-- directly; other players' proposals are decided by a majority vote of the players.
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS adjudication BOOLEAN DEFAULT FALSE;
+
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS adjudication_deadline TIMESTAMP WITH TIME ZONE;
+ALTER TABLE rounds ADD COLUMN IF NOT EXISTS adjudication_words JSONB; -- [{ word, players: [{ playerId, typed }] }]
+
+-- Every proposal and its decision is kept as the round's adjudication history
+CREATE TABLE IF NOT EXISTS word_adjudications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  game_id UUID REFERENCES games(id) ON DELETE CASCADE,
+  round_id UUID REFERENCES rounds(id) ON DELETE CASCADE,
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE, -- the player who proposed it
+  action VARCHAR(10) NOT NULL CHECK (action IN ('strike', 'merge')),
+  words TEXT[] NOT NULL, -- canonical words, the first is kept when merging
+  status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'expired')),
+  decided_by VARCHAR(10) CHECK (decided_by IN ('host', 'vote')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  decided_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One vote per player per proposal, changed by voting again
+CREATE TABLE IF NOT EXISTS adjudication_votes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  game_id UUID REFERENCES games(id) ON DELETE CASCADE,
+  adjudication_id UUID REFERENCES word_adjudications(id) ON DELETE CASCADE,
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  approve BOOLEAN NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(adjudication_id, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_word_adjudications_round_id ON word_adjudications(round_id);
+CREATE INDEX IF NOT EXISTS idx_adjudication_votes_adjudication_id ON adjudication_votes(adjudication_id);
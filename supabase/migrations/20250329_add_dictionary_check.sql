@@ -0,0 +1,13 @@
+-- Migration: Add dictionary check
+-- Topics with a bundled dictionary (data/dictionaries.json) can check submissions
+-- against it. dictionary_check decides what happens to words missing from it:
+-- 'zero' scores them zero, 'adjudicate' sends them to players before scoring and
+-- 'off' accepts any word. Zeroed words are recorded in the ledger as 'invalid'.
+-- The check is off unless the host turns it on in the lobby.
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS dictionary_check VARCHAR(10) DEFAULT 'off'
+  CHECK (dictionary_check IN ('off', 'zero', 'adjudicate'));
+
+ALTER TABLE round_score_ledger DROP CONSTRAINT IF EXISTS round_score_ledger_reason_check;
+ALTER TABLE round_score_ledger ADD CONSTRAINT round_score_ledger_reason_check
+  CHECK (reason IN ('match', 'unique', 'bonus', 'penalty', 'invalid'));
@@ -0,0 +1,64 @@
+-- Migration: Add submission drafts
+-- Words a player is still typing are saved as submissions with is_final = FALSE.
+-- Submitting replaces them with final rows, and when a round ends the drafts of
+-- players who never submitted become final, so scoring only reads final rows.
+
+-- Every submission so far was a final submit
+UPDATE submissions SET is_final = TRUE WHERE is_final IS NOT TRUE;
+
+ALTER TABLE submissions ALTER COLUMN is_final SET NOT NULL;
+
+-- Replace a player's drafts in a round
+-- Returns FALSE without saving when the player has already submitted
+CREATE OR REPLACE FUNCTION save_submission_drafts(
+  p_round_id UUID,
+  p_player_id UUID,
+  p_words TEXT[]
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM submissions
+    WHERE round_id = p_round_id AND player_id = p_player_id AND is_final
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  DELETE FROM submissions
+  WHERE round_id = p_round_id AND player_id = p_player_id AND NOT is_final;
+
+  -- clock_timestamp() advances for each row, so drafts keep the order they were typed in
+  INSERT INTO submissions (round_id, player_id, word, is_final, submitted_at)
+  SELECT p_round_id, p_player_id, draft.word, FALSE, clock_timestamp()
+  FROM unnest(p_words) WITH ORDINALITY AS draft(word, position)
+  ORDER BY draft.position;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Turn the drafts of players who never submitted into final submissions
+-- Drafts of players who did submit are dropped. Returns the number of drafts finalized.
+CREATE OR REPLACE FUNCTION finalize_round_drafts(p_round_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_finalized INTEGER;
+BEGIN
+  DELETE FROM submissions draft
+  WHERE draft.round_id = p_round_id
+    AND NOT draft.is_final
+    AND EXISTS (
+      SELECT 1 FROM submissions final
+      WHERE final.round_id = p_round_id
+        AND final.player_id = draft.player_id
+        AND final.is_final
+    );
+
+  UPDATE submissions
+  SET is_final = TRUE
+  WHERE round_id = p_round_id AND NOT is_final;
+
+  GET DIAGNOSTICS v_finalized = ROW_COUNT;
+  RETURN v_finalized;
+END;
+$$ LANGUAGE plpgsql;
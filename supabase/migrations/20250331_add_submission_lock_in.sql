@@ -0,0 +1,71 @@
+-- Migration: Add submission lock-in
+-- Submitted words stay editable until the round closes. Submitting again replaces
+-- the player's whole set of words, and locking in makes the set final for good.
+-- The game page ends a round early once every player has locked in.
+
+ALTER TABLE submissions ADD COLUMN IF NOT EXISTS locked_in BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Earlier final submissions could not be changed
+UPDATE submissions SET locked_in = TRUE WHERE is_final AND NOT locked_in;
+
+-- Replace a player's words in a round with a new final set
+-- Drafts are dropped. Returns FALSE without saving when the player has locked in.
+CREATE OR REPLACE FUNCTION replace_submissions(
+  p_round_id UUID,
+  p_player_id UUID,
+  p_words TEXT[],
+  p_lock_in BOOLEAN
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  -- Write one player's words at a time
+  PERFORM 1 FROM players WHERE id = p_player_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM submissions
+    WHERE round_id = p_round_id AND player_id = p_player_id AND locked_in
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  DELETE FROM submissions
+  WHERE round_id = p_round_id AND player_id = p_player_id;
+
+  -- clock_timestamp() advances for each row, so words keep the order they were typed in
+  INSERT INTO submissions (round_id, player_id, word, is_final, locked_in, submitted_at)
+  SELECT p_round_id, p_player_id, submitted.word, TRUE, p_lock_in, clock_timestamp()
+  FROM unnest(p_words) WITH ORDINALITY AS submitted(word, position)
+  ORDER BY submitted.position;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replace a player's drafts in a round, now also one player at a time
+CREATE OR REPLACE FUNCTION save_submission_drafts(
+  p_round_id UUID,
+  p_player_id UUID,
+  p_words TEXT[]
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  PERFORM 1 FROM players WHERE id = p_player_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM submissions
+    WHERE round_id = p_round_id AND player_id = p_player_id AND is_final
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  DELETE FROM submissions
+  WHERE round_id = p_round_id AND player_id = p_player_id AND NOT is_final;
+
+  INSERT INTO submissions (round_id, player_id, word, is_final, submitted_at)
+  SELECT p_round_id, p_player_id, draft.word, FALSE, clock_timestamp()
+  FROM unnest(p_words) WITH ORDINALITY AS draft(word, position)
+  ORDER BY draft.position;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,81 @@
+-- Migration: Add the game state machine
+-- Games move lobby -> round-active -> reveal -> round-active -> ... -> completed, and
+-- the host can pause, resume or abandon a game being played (see lib/gameState.ts).
+-- 'in-progress' is split into 'round-active' and 'reveal'.
+
+ALTER TABLE games DROP CONSTRAINT IF EXISTS games_status_check;
+
+-- Games whose current round has ended are revealing its results
+UPDATE games
+SET status = CASE
+  WHEN EXISTS (
+    SELECT 1 FROM rounds
+    WHERE rounds.game_id = games.id
+      AND rounds.round_number = games.current_round
+      AND rounds.end_time IS NOT NULL
+  ) THEN 'reveal'
+  ELSE 'round-active'
+END
+WHERE status = 'in-progress';
+
+ALTER TABLE games ADD CONSTRAINT games_status_check
+  CHECK (status IN ('lobby', 'round-active', 'reveal', 'paused', 'abandoned', 'completed'));
+
+-- When a paused game was paused, NULL for other games
+ALTER TABLE games ADD COLUMN IF NOT EXISTS paused_at TIMESTAMP WITH TIME ZONE;
+
+-- Resume a paused game with the given status
+-- Every deadline of the current round moves back by the time the game spent paused.
+-- Returns FALSE without changes when the game is not paused.
+CREATE OR REPLACE FUNCTION resume_game(p_game_id UUID, p_status TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_paused_for INTERVAL;
+  v_current_round INTEGER;
+BEGIN
+  SELECT NOW() - COALESCE(paused_at, NOW()), current_round
+  INTO v_paused_for, v_current_round
+  FROM games
+  WHERE id = p_game_id AND status = 'paused'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  -- NULL deadlines stay NULL
+  UPDATE rounds
+  SET
+    vote_deadline = vote_deadline + v_paused_for,
+    deadline = deadline + v_paused_for,
+    adjudication_deadline = adjudication_deadline + v_paused_for,
+    reveal_deadline = reveal_deadline + v_paused_for
+  WHERE game_id = p_game_id AND round_number = v_current_round;
+
+  UPDATE games
+  SET status = p_status, paused_at = NULL
+  WHERE id = p_game_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Start games with the first round active
+CREATE OR REPLACE FUNCTION start_game(
+  p_game_id UUID,
+  p_round_type TEXT,
+  p_topic TEXT,
+  p_topic_id TEXT
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE games
+  SET
+    status = 'round-active',
+    current_round = 1,
+    updated_at = NOW()
+  WHERE id = p_game_id;
+
+  INSERT INTO rounds (id, game_id, round_number, type, topic, topic_id, start_time, created_at, updated_at)
+  VALUES (gen_random_uuid(), p_game_id, 1, p_round_type, p_topic, p_topic_id, NOW(), NOW(), NOW());
+END;
+$$ LANGUAGE plpgsql;